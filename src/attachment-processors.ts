@@ -0,0 +1,342 @@
+/**
+ * AttachmentProcessors - Derive agent-usable content from non-image attachments
+ *
+ * A registry maps MIME types (exact, 'type/*' or '*') to processors. The
+ * afferent runs the matching processor on each downloaded attachment and
+ * attaches its output to the attachment entry as `derived` content.
+ */
+
+import { inflateSync } from 'zlib';
+
+export interface AttachmentInput {
+  data: Buffer;
+  contentType: string;
+  filename?: string;
+}
+
+export interface DerivedContent {
+  kind: 'text' | 'transcript' | 'video-metadata' | string;
+  processor: string; // Name of the processor that produced it
+  text?: string;
+  metadata?: Record<string, any>;
+  truncated?: boolean;
+  // Images derived from the attachment (e.g. a video's first frame)
+  images?: Array<{ data: Buffer; contentType: string }>;
+}
+
+export interface AttachmentProcessor {
+  name: string;
+  process(input: AttachmentInput): Promise<DerivedContent | null>;
+}
+
+/**
+ * AttachmentProcessorRegistry resolves the processor for a MIME type.
+ * Exact matches win over 'type/*' wildcards, which win over '*'.
+ */
+export class AttachmentProcessorRegistry {
+  private processors = new Map<string, AttachmentProcessor>();
+
+  register(pattern: string, processor: AttachmentProcessor): this {
+    this.processors.set(pattern.toLowerCase(), processor);
+    return this;
+  }
+
+  find(contentType: string): AttachmentProcessor | undefined {
+    // Ignore parameters such as "; charset=utf-8"
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const majorType = mimeType.split('/')[0];
+
+    return this.processors.get(mimeType) ||
+           this.processors.get(`${majorType}/*`) ||
+           this.processors.get('*');
+  }
+
+  /**
+   * Run the matching processor, or return null if none matches or it fails
+   */
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    const processor = this.find(input.contentType);
+    if (!processor) return null;
+
+    try {
+      return await processor.process(input);
+    } catch (error) {
+      console.error(`[AttachmentProcessorRegistry] ${processor.name} failed on ${input.filename || input.contentType}:`, error);
+      return null;
+    }
+  }
+}
+
+function truncate(text: string, maxChars: number): { text: string; truncated: boolean } {
+  return text.length > maxChars
+    ? { text: text.substring(0, maxChars), truncated: true }
+    : { text, truncated: false };
+}
+
+/**
+ * TextAttachmentProcessor decodes text files (text/*, JSON, etc.) as UTF-8
+ */
+export class TextAttachmentProcessor implements AttachmentProcessor {
+  name = 'text';
+
+  constructor(private maxChars: number = 20000) {}
+
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    const { text, truncated } = truncate(input.data.toString('utf8'), this.maxChars);
+    return { kind: 'text', processor: this.name, text, truncated };
+  }
+}
+
+/**
+ * PdfTextProcessor extracts text from PDFs without external dependencies.
+ *
+ * Best effort: reads literal strings from (optionally Flate-compressed)
+ * content streams. PDFs using CID fonts with hex strings or scanned pages
+ * yield little or no text. Decompression is capped at maxInflatedBytes for
+ * the whole file, so a small compressed stream can't exhaust memory; streams
+ * past the cap are skipped.
+ */
+export class PdfTextProcessor implements AttachmentProcessor {
+  name = 'pdf-text';
+
+  constructor(private maxChars: number = 20000, private maxInflatedBytes: number = 10 * 1024 * 1024) {}
+
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    const raw = input.data.toString('latin1');
+    const parts: string[] = [];
+    let inflatedBytes = 0;
+    const streamStart = /(<<(?:[^<>]|<<[^<>]*>>)*>>)\s*stream\r?\n/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = streamStart.exec(raw)) !== null) {
+      const dictionary = match[1];
+      const contentStart = match.index + match[0].length;
+      const contentEnd = raw.indexOf('endstream', contentStart);
+      if (contentEnd === -1) break;
+
+      let content = Buffer.from(raw.substring(contentStart, contentEnd), 'latin1');
+      if (dictionary.includes('/FlateDecode')) {
+        const remaining = this.maxInflatedBytes - inflatedBytes;
+        if (remaining <= 0) continue;
+        try {
+          content = inflateSync(content, { maxOutputLength: remaining });
+          inflatedBytes += content.length;
+        } catch {
+          continue; // Not a stream we can read, truncated, or over the inflate limit
+        }
+      } else if (/\/Filter/.test(dictionary)) {
+        continue; // Other encodings (DCT images etc.) carry no text
+      }
+
+      const text = this.extractText(content.toString('latin1'));
+      if (text) parts.push(text);
+      streamStart.lastIndex = contentEnd;
+    }
+
+    const { text, truncated } = truncate(parts.join('\n').trim(), this.maxChars);
+    return {
+      kind: 'text',
+      processor: this.name,
+      text,
+      truncated,
+      metadata: { pages: (raw.match(/\/Type\s*\/Page\b/g) || []).length }
+    };
+  }
+
+  /**
+   * Pull text out of a content stream's Tj/TJ/'/" operators
+   */
+  private extractText(content: string): string {
+    const tokens = /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|(?:^|\s)(T\*|Td|TD|ET)(?=\s|$)/g;
+    let text = '';
+
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(content)) !== null) {
+      if (match[1] !== undefined) {
+        // TJ array: strings interleaved with kerning adjustments - large gaps are word spaces
+        const items = /\(((?:\\.|[^\\)])*)\)|(-?\d+(?:\.\d+)?)/g;
+        let item: RegExpExecArray | null;
+        while ((item = items.exec(match[1])) !== null) {
+          if (item[1] !== undefined) {
+            text += this.unescape(item[1]);
+          } else if (parseFloat(item[2]) < -200) {
+            text += ' ';
+          }
+        }
+      } else if (match[2] !== undefined) {
+        text += this.unescape(match[2]);
+      } else if (!text.endsWith('\n')) {
+        text += '\n';
+      }
+    }
+
+    return text.replace(/[ \t]+\n/g, '\n').trim();
+  }
+
+  private unescape(value: string): string {
+    return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+      switch (escape) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case 'b': return '\b';
+        case 'f': return '\f';
+        case '(': case ')': case '\\': return escape;
+        default: return String.fromCharCode(parseInt(escape, 8));
+      }
+    });
+  }
+}
+
+/**
+ * Transcription hook - wraps whatever speech-to-text service the host uses
+ */
+export type TranscribeFn = (input: AttachmentInput) => Promise<string>;
+
+/**
+ * TranscriptionProcessor turns voice notes (audio/aac etc.) into transcripts
+ * through a host-supplied transcription function
+ */
+export class TranscriptionProcessor implements AttachmentProcessor {
+  name = 'transcription';
+
+  constructor(private transcribe: TranscribeFn) {}
+
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    const text = await this.transcribe(input);
+    return { kind: 'transcript', processor: this.name, text };
+  }
+}
+
+/**
+ * Frame extraction hook - e.g. an ffmpeg wrapper returning the first frame as an image
+ */
+export type ExtractFrameFn = (input: AttachmentInput) => Promise<{ data: Buffer; contentType: string } | null>;
+
+/**
+ * VideoMetadataProcessor reads duration and dimensions from MP4/QuickTime
+ * containers, and the first frame when a frame extraction hook is supplied
+ */
+export class VideoMetadataProcessor implements AttachmentProcessor {
+  name = 'video-metadata';
+
+  constructor(private extractFrame?: ExtractFrameFn) {}
+
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    const metadata: Record<string, any> = {};
+    const moov = this.findBox(input.data, 0, input.data.length, 'moov');
+
+    if (moov) {
+      const mvhd = this.findBox(input.data, moov.start, moov.end, 'mvhd');
+      if (mvhd) {
+        const version = input.data.readUInt8(mvhd.start);
+        const timescale = input.data.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+        const duration = version === 1
+          ? Number(input.data.readBigUInt64BE(mvhd.start + 24))
+          : input.data.readUInt32BE(mvhd.start + 16);
+        if (timescale > 0) {
+          metadata.durationSeconds = Math.round(duration / timescale * 10) / 10;
+        }
+      }
+
+      // Video tracks carry their dimensions (16.16 fixed point) at the end of tkhd
+      for (const trak of this.findBoxes(input.data, moov.start, moov.end, 'trak')) {
+        const tkhd = this.findBox(input.data, trak.start, trak.end, 'tkhd');
+        if (!tkhd) continue;
+        const width = input.data.readUInt32BE(tkhd.end - 8) / 65536;
+        const height = input.data.readUInt32BE(tkhd.end - 4) / 65536;
+        if (width > 0 && height > 0) {
+          metadata.width = width;
+          metadata.height = height;
+          break;
+        }
+      }
+    }
+
+    const frame = this.extractFrame ? await this.extractFrame(input) : null;
+
+    return {
+      kind: 'video-metadata',
+      processor: this.name,
+      metadata,
+      images: frame ? [frame] : undefined
+    };
+  }
+
+  private findBox(data: Buffer, start: number, end: number, type: string): { start: number; end: number } | undefined {
+    return this.findBoxes(data, start, end, type)[0];
+  }
+
+  /**
+   * Find child boxes of a given type between start and end (box content offsets)
+   */
+  private findBoxes(data: Buffer, start: number, end: number, type: string): Array<{ start: number; end: number }> {
+    const boxes: Array<{ start: number; end: number }> = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = data.readUInt32BE(offset);
+      const boxType = data.toString('latin1', offset + 4, offset + 8);
+      let headerSize = 8;
+
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(data.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize || offset + size > end) break;
+
+      if (boxType === type) {
+        boxes.push({ start: offset + headerSize, end: offset + size });
+      }
+      offset += size;
+    }
+
+    return boxes;
+  }
+}
+
+/**
+ * StubAttachmentProcessor returns fixed derived content and records its
+ * inputs - for tests and local development without real services
+ */
+export class StubAttachmentProcessor implements AttachmentProcessor {
+  name = 'stub';
+  calls: AttachmentInput[] = [];
+
+  constructor(private output: Partial<DerivedContent> = {}) {}
+
+  async process(input: AttachmentInput): Promise<DerivedContent | null> {
+    this.calls.push(input);
+    return {
+      kind: 'text',
+      text: `[stub content for ${input.filename || input.contentType}]`,
+      ...this.output,
+      processor: this.name
+    };
+  }
+}
+
+/**
+ * Registry with the built-in processors. Audio is only registered when a
+ * transcription function is supplied.
+ */
+export function createDefaultAttachmentProcessors(options: {
+  transcribe?: TranscribeFn;
+  extractFrame?: ExtractFrameFn;
+  maxTextChars?: number;
+} = {}): AttachmentProcessorRegistry {
+  const text = new TextAttachmentProcessor(options.maxTextChars);
+  const registry = new AttachmentProcessorRegistry()
+    .register('text/*', text)
+    .register('application/json', text)
+    .register('application/pdf', new PdfTextProcessor(options.maxTextChars))
+    .register('video/*', new VideoMetadataProcessor(options.extractFrame));
+
+  if (options.transcribe) {
+    registry.register('audio/*', new TranscriptionProcessor(options.transcribe));
+  }
+
+  return registry;
+}
@@ -0,0 +1,206 @@
+/**
+ * AttachmentStore - Content-addressed storage for downloaded attachments
+ *
+ * Keeps attachment bytes out of VEIL: facets reference attachments by
+ * hash/URI and renderers load the bytes lazily when they need them.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export const ATTACHMENT_URI_PREFIX = 'signal-attachment://';
+
+export interface StoredAttachment {
+  hash: string; // sha256 of the content
+  uri: string; // signal-attachment://<hash>
+  size: number; // bytes
+}
+
+export interface AttachmentStore {
+  /**
+   * Store attachment bytes, returning the existing entry if the content is already stored.
+   * Rejects attachments the store can't hold.
+   */
+  put(data: Buffer): Promise<StoredAttachment>;
+
+  /**
+   * Load attachment bytes by hash or URI, or null if evicted/unknown
+   */
+  get(hashOrUri: string): Promise<Buffer | null>;
+}
+
+export function attachmentUri(hash: string): string {
+  return `${ATTACHMENT_URI_PREFIX}${hash}`;
+}
+
+function toHash(hashOrUri: string): string {
+  return hashOrUri.startsWith(ATTACHMENT_URI_PREFIX)
+    ? hashOrUri.slice(ATTACHMENT_URI_PREFIX.length)
+    : hashOrUri;
+}
+
+/**
+ * Load an attachment's bytes as base64 - inline data if present, otherwise from the store
+ */
+export async function loadAttachmentData(
+  attachment: { data?: string; uri?: string; hash?: string },
+  store?: AttachmentStore
+): Promise<string | null> {
+  if (attachment.data) return attachment.data;
+
+  const ref = attachment.uri || attachment.hash;
+  if (!ref || !store) return null;
+
+  const buffer = await store.get(ref);
+  return buffer ? buffer.toString('base64') : null;
+}
+
+export interface LocalAttachmentStoreConfig {
+  directory: string;
+  maxBytes?: number; // Total size before least recently used attachments are evicted, default 500 MB
+}
+
+interface IndexEntry {
+  size: number;
+}
+
+/**
+ * LocalAttachmentStore keeps attachments as files named by hash in a local
+ * directory, evicting the least recently used once maxBytes is exceeded.
+ * A single attachment larger than maxBytes is rejected rather than evicting
+ * everything else.
+ */
+export class LocalAttachmentStore implements AttachmentStore {
+  private directory: string;
+  private maxBytes: number;
+  // Map iteration order doubles as LRU order: oldest first
+  private index = new Map<string, IndexEntry>();
+  private totalBytes = 0;
+  private ready?: Promise<void>;
+  private writing = new Map<string, Promise<void>>(); // hash -> write in progress
+
+  constructor(config: LocalAttachmentStoreConfig) {
+    this.directory = config.directory;
+    this.maxBytes = config.maxBytes ?? 500 * 1024 * 1024;
+  }
+
+  async put(data: Buffer): Promise<StoredAttachment> {
+    if (data.length > this.maxBytes) {
+      throw new Error(`Attachment of ${data.length} bytes exceeds the store limit of ${this.maxBytes} bytes`);
+    }
+
+    await this.init();
+
+    const hash = createHash('sha256').update(data).digest('hex');
+
+    if (this.index.has(hash)) {
+      await this.touch(hash);
+    } else if (this.writing.has(hash)) {
+      // Same content is being stored concurrently - share that write
+      await this.writing.get(hash);
+    } else {
+      const write = this.write(hash, data).finally(() => {
+        this.writing.delete(hash);
+      });
+      this.writing.set(hash, write);
+      await write;
+    }
+
+    return { hash, uri: attachmentUri(hash), size: data.length };
+  }
+
+  async get(hashOrUri: string): Promise<Buffer | null> {
+    await this.init();
+
+    const hash = toHash(hashOrUri);
+    if (!this.index.has(hash)) return null;
+
+    try {
+      const data = await fs.readFile(this.filePath(hash));
+      await this.touch(hash);
+      return data;
+    } catch (error) {
+      // Removed behind our back - forget it
+      this.forget(hash);
+      return null;
+    }
+  }
+
+  private async write(hash: string, data: Buffer): Promise<void> {
+    const filePath = this.filePath(hash);
+
+    // Write to a uniquely named temp file first so readers never see a partial attachment
+    const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+
+    this.index.set(hash, { size: data.length });
+    this.totalBytes += data.length;
+    await this.evict();
+  }
+
+  /**
+   * Load the existing directory contents, ordered by last access (mtime)
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const entries: Array<{ hash: string; size: number; mtime: number }> = [];
+        for (const name of await fs.readdir(this.directory)) {
+          if (!/^[0-9a-f]{64}$/.test(name)) continue;
+          const stat = await fs.stat(path.join(this.directory, name));
+          entries.push({ hash: name, size: stat.size, mtime: stat.mtimeMs });
+        }
+
+        entries.sort((a, b) => a.mtime - b.mtime);
+        for (const entry of entries) {
+          this.index.set(entry.hash, { size: entry.size });
+          this.totalBytes += entry.size;
+        }
+
+        console.log(`[LocalAttachmentStore] Loaded ${entries.length} attachment(s), ${this.totalBytes} bytes from ${this.directory}`);
+        await this.evict();
+      })();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Mark an attachment as most recently used (in memory and on disk for restarts)
+   */
+  private async touch(hash: string): Promise<void> {
+    const entry = this.index.get(hash);
+    if (!entry) return;
+
+    this.index.delete(hash);
+    this.index.set(hash, entry);
+
+    const now = new Date();
+    await fs.utimes(this.filePath(hash), now, now).catch(() => {});
+  }
+
+  private async evict(): Promise<void> {
+    for (const hash of this.index.keys()) {
+      // Always keep the most recent attachment, even if it alone exceeds the limit
+      if (this.totalBytes <= this.maxBytes || this.index.size <= 1) break;
+
+      this.forget(hash);
+      await fs.unlink(this.filePath(hash)).catch(() => {});
+      console.log(`[LocalAttachmentStore] Evicted ${hash.substring(0, 12)}...`);
+    }
+  }
+
+  private forget(hash: string): void {
+    const entry = this.index.get(hash);
+    if (!entry) return;
+    this.index.delete(hash);
+    this.totalBytes -= entry.size;
+  }
+
+  private filePath(hash: string): string {
+    return path.join(this.directory, hash);
+  }
+}
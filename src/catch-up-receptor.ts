@@ -0,0 +1,66 @@
+/**
+ * SignalCatchUpReceptor - Tracks backlog catch-up after a bot (re)connects
+ *
+ * Keeps one facet per bot from signal:catch-up events. The facet records
+ * when the bot's current connection came up, which SignalMessageReceptor
+ * uses to recognise backlog (messages sent before that) and avoid
+ * activating on stale messages.
+ */
+
+import { BaseReceptor } from 'connectome-ts';
+import type { SpaceEvent, VEILDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { SignalCatchUpPayload } from './signal-types.js';
+
+/**
+ * When the bot's current connection came up, or undefined if no catch-up has been seen
+ */
+export function catchUpStartedAt(state: ReadonlyVEILState, botPhone: string): number | undefined {
+  return (state.facets.get(`signal-catch-up-${botPhone}`) as any)?.attributes?.startedAt;
+}
+
+export class SignalCatchUpReceptor extends BaseReceptor {
+  topics = ['signal:catch-up'];
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalCatchUpPayload;
+    const { afferentId, botPhone, phase, startedAt, messageCount, oldestTimestamp } = payload;
+
+    const facetId = `signal-catch-up-${botPhone}`;
+    const catchingUp = phase === 'start';
+    const content = catchingUp
+      ? `Signal bot ${botPhone} is catching up on queued messages`
+      : `Signal bot ${botPhone} caught up on ${messageCount} queued message(s)`;
+    const attributes = {
+      afferentId,
+      botPhone,
+      catchingUp,
+      startedAt,
+      endedAt: catchingUp ? undefined : event.timestamp,
+      messageCount,
+      oldestTimestamp
+    };
+
+    console.log(`[SignalCatchUpReceptor] ${content}`);
+
+    if (state.facets.get(facetId)) {
+      return [{
+        type: 'rewriteFacet',
+        id: facetId,
+        changes: { content, attributes }
+      }];
+    }
+
+    return [{
+      type: 'addFacet',
+      facet: {
+        id: facetId,
+        type: 'signal-catch-up',
+        content,
+        aspects: {
+          hasState: true
+        },
+        attributes
+      }
+    }];
+  }
+}
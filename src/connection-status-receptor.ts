@@ -0,0 +1,58 @@
+/**
+ * SignalConnectionStatusReceptor - Reflects afferent connection state in VEIL
+ *
+ * Keeps one status facet per bot, updated from signal:connection-status
+ * events, so operators and agents can see whether a bot is actually
+ * receiving messages.
+ */
+
+import { BaseReceptor } from 'connectome-ts';
+import type { SpaceEvent, VEILDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { SignalConnectionStatusPayload } from './signal-types.js';
+
+export class SignalConnectionStatusReceptor extends BaseReceptor {
+  topics = ['signal:connection-status'];
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalConnectionStatusPayload;
+    const { afferentId, state: connectionState, botPhone, receiveMode, connected, connectedAt, lastMessageAt, lastPongAt, retryCount } = payload;
+
+    const facetId = `signal-connection-${botPhone}`;
+    const content = `Signal connection for ${botPhone}: ${connectionState}`;
+    const attributes = {
+      afferentId,
+      botPhone,
+      receiveMode,
+      state: connectionState,
+      connected,
+      connectedAt,
+      lastMessageAt,
+      lastPongAt,
+      retryCount,
+      updatedAt: event.timestamp
+    };
+
+    console.log(`[SignalConnectionStatusReceptor] ${content}`);
+
+    if (state.facets.get(facetId)) {
+      return [{
+        type: 'rewriteFacet',
+        id: facetId,
+        changes: { content, attributes }
+      }];
+    }
+
+    return [{
+      type: 'addFacet',
+      facet: {
+        id: facetId,
+        type: 'signal-connection-status',
+        content,
+        aspects: {
+          hasState: true
+        },
+        attributes
+      }
+    }];
+  }
+}
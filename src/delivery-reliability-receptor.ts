@@ -0,0 +1,91 @@
+/**
+ * SignalDeliveryReliabilityReceptor - Rolling per-bot delivery reliability
+ *
+ * Keeps one facet per bot from signal:consistency-report events, recording
+ * whether the bot received each of the last `window` group messages that
+ * were checked. Operators can compare these to spot a lossy connection.
+ * Reports whose receipts weren't observed (no groupIngestion coordinator)
+ * are ignored.
+ */
+
+import { BaseReceptor } from 'connectome-ts';
+import type { SpaceEvent, VEILDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { SignalConsistencyReportPayload } from './signal-types.js';
+
+export interface DeliveryReliabilityConfig {
+  window?: number; // Number of most recent checked messages each bot's reliability covers, default 100
+}
+
+export class SignalDeliveryReliabilityReceptor extends BaseReceptor {
+  topics = ['signal:consistency-report'];
+
+  private readonly window: number;
+
+  constructor(config: DeliveryReliabilityConfig = {}) {
+    super();
+    this.window = config.window ?? 100;
+  }
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalConsistencyReportPayload;
+    const { messageId, receiptsObserved, expectedBots, missingBots, targetedBots } = payload;
+    const deltas: VEILDelta[] = [];
+
+    // Without observed receipts every bot but the emitting one would count as a miss
+    if (!receiptsObserved) {
+      return deltas;
+    }
+
+    for (const botPhone of expectedBots) {
+      const facetId = `signal-delivery-reliability-${botPhone}`;
+      const existing = state.facets.get(facetId) as any;
+      const missed = missingBots.includes(botPhone);
+
+      // 1 = received, 0 = missed, oldest first
+      const recent: number[] = [...(existing?.attributes?.recent || []), missed ? 0 : 1].slice(-this.window);
+      const received = recent.filter(outcome => outcome === 1).length;
+      const reliability = received / recent.length;
+
+      const content = `Signal delivery for ${botPhone}: received ${received}/${recent.length} recent group messages (${Math.round(reliability * 100)}%)`;
+      const attributes = {
+        ...existing?.attributes,
+        botPhone,
+        recent,
+        checked: recent.length,
+        received,
+        missed: recent.length - received,
+        reliability,
+        totalChecked: (existing?.attributes?.totalChecked || 0) + 1,
+        totalMissed: (existing?.attributes?.totalMissed || 0) + (missed ? 1 : 0),
+        totalTargetedMissed: (existing?.attributes?.totalTargetedMissed || 0) + (targetedBots.includes(botPhone) ? 1 : 0),
+        lastMissedMessageId: missed ? messageId : existing?.attributes?.lastMissedMessageId,
+        lastMissedAt: missed ? event.timestamp : existing?.attributes?.lastMissedAt,
+        updatedAt: event.timestamp
+      };
+
+      if (existing) {
+        deltas.push({
+          type: 'rewriteFacet',
+          id: facetId,
+          changes: { content, attributes }
+        });
+        continue;
+      }
+
+      deltas.push({
+        type: 'addFacet',
+        facet: {
+          id: facetId,
+          type: 'signal-delivery-reliability',
+          content,
+          aspects: {
+            hasState: true
+          },
+          attributes
+        }
+      });
+    }
+
+    return deltas;
+  }
+}
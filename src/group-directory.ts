@@ -0,0 +1,151 @@
+/**
+ * GroupDirectory - Shared cache of Signal group metadata
+ *
+ * Resolves internal (envelope) and external ("group.…") group IDs in both
+ * directions for the afferents, effectors and receptors of all bots. Group
+ * lists are fetched per bot, refreshed once older than the TTL, and
+ * concurrent lookups for the same bot share one request. Unknown IDs are
+ * negatively cached so repeated misses don't refetch every time.
+ */
+
+import { fetchGroups } from './signal-groups.js';
+import type { SignalGroupSnapshot } from './signal-groups.js';
+import type { SignalRestClient } from './signal-rest-client.js';
+
+export interface GroupDirectoryConfig {
+  client: SignalRestClient;
+  ttl?: number; // How long fetched groups are trusted in milliseconds, default 10 minutes
+  negativeTtl?: number; // How long an unknown group ID is remembered as unknown, default 1 minute
+}
+
+interface CachedGroup {
+  group: SignalGroupSnapshot;
+  fetchedAt: number;
+}
+
+export class GroupDirectory {
+  private config: Required<GroupDirectoryConfig>;
+  private groups = new Map<string, CachedGroup>(); // internal ID -> group
+  private externalToInternal = new Map<string, string>();
+  private unknown = new Map<string, number>(); // group ID -> negative cache expiry
+  private inflight = new Map<string, Promise<SignalGroupSnapshot[]>>(); // botPhone -> pending fetch
+
+  constructor(config: GroupDirectoryConfig) {
+    this.config = {
+      client: config.client,
+      ttl: config.ttl ?? 10 * 60 * 1000,
+      negativeTtl: config.negativeTtl ?? 60 * 1000
+    };
+  }
+
+  /**
+   * Fetch a bot's groups now, sharing any request already in flight.
+   * Throws if the request fails.
+   */
+  refresh(botPhone: string): Promise<SignalGroupSnapshot[]> {
+    const pending = this.inflight.get(botPhone);
+    if (pending) return pending;
+
+    const request = fetchGroups(this.config.client, botPhone)
+      .then(groups => {
+        const now = Date.now();
+        for (const group of groups) {
+          this.store(group, now);
+        }
+        console.log(`[GroupDirectory] Fetched ${groups.length} group(s) for ${botPhone}`);
+        return groups;
+      })
+      .finally(() => {
+        this.inflight.delete(botPhone);
+      });
+
+    this.inflight.set(botPhone, request);
+    return request;
+  }
+
+  /**
+   * Load a bot's groups at startup, logging rather than throwing on failure
+   */
+  async prefetch(botPhone: string): Promise<void> {
+    try {
+      await this.refresh(botPhone);
+    } catch (error) {
+      console.error(`[GroupDirectory] Prefetch failed for ${botPhone}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Look up a group by internal or external ID, fetching the bot's groups if
+   * the cached entry is missing or stale. Returns null for unknown groups or
+   * if the API is unreachable and nothing is cached.
+   */
+  async getGroup(botPhone: string, groupId: string): Promise<SignalGroupSnapshot | null> {
+    const cached = this.lookup(groupId);
+    if (cached && Date.now() - cached.fetchedAt < this.config.ttl) {
+      return cached.group;
+    }
+
+    const unknownUntil = this.unknown.get(groupId);
+    if (!cached && unknownUntil && unknownUntil > Date.now()) {
+      return null;
+    }
+
+    try {
+      await this.refresh(botPhone);
+    } catch (error) {
+      console.error(`[GroupDirectory] Error fetching groups for ${botPhone}:`, error instanceof Error ? error.message : String(error));
+      return cached?.group || null; // Stale beats nothing
+    }
+
+    const refreshed = this.lookup(groupId);
+    if (!refreshed) {
+      this.unknown.set(groupId, Date.now() + this.config.negativeTtl);
+      return null;
+    }
+    return refreshed.group;
+  }
+
+  /**
+   * Internal (envelope) group ID -> external ID for /v2/send
+   */
+  async toExternalId(botPhone: string, internalId: string): Promise<string | null> {
+    return (await this.getGroup(botPhone, internalId))?.externalId || null;
+  }
+
+  /**
+   * External group ID -> internal (envelope) group ID
+   */
+  async toInternalId(botPhone: string, externalId: string): Promise<string | null> {
+    return (await this.getGroup(botPhone, externalId))?.groupId || null;
+  }
+
+  /**
+   * Cached group without fetching - for synchronous callers such as receptors
+   */
+  peek(groupId: string): SignalGroupSnapshot | undefined {
+    return this.lookup(groupId)?.group;
+  }
+
+  /**
+   * Forget a group (e.g. after a group update) so the next lookup refetches it
+   */
+  invalidate(groupId: string): void {
+    const cached = this.lookup(groupId);
+    if (cached) {
+      this.groups.delete(cached.group.groupId);
+      this.externalToInternal.delete(cached.group.externalId);
+    }
+    this.unknown.delete(groupId);
+  }
+
+  private lookup(groupId: string): CachedGroup | undefined {
+    return this.groups.get(groupId) || this.groups.get(this.externalToInternal.get(groupId) || '');
+  }
+
+  private store(group: SignalGroupSnapshot, fetchedAt: number): void {
+    this.groups.set(group.groupId, { group, fetchedAt });
+    this.externalToInternal.set(group.externalId, group.groupId);
+    this.unknown.delete(group.groupId);
+    this.unknown.delete(group.externalId);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * GroupIngestionCoordinator - Designated primary receiver per group
+ *
+ * Plain deduplication lets whichever bot's socket is fastest emit a group
+ * message. The coordinator instead ranks the bots in each group
+ * deterministically (the same ranking in every process that knows the same
+ * members, without talking to each other): the primary claims a message as
+ * soon as it arrives, standbys wait a window per rank and only claim it if
+ * nobody has. Claims go through the MessageDeduplicator, so with a shared
+ * DedupStore this also works across processes.
+ *
+ * Claims are kept until a message is claimTtl old (and at least as long as
+ * the slowest standby waits), so a bot flushing its backlog after a
+ * reconnect doesn't emit messages again once a short dedup TTL has passed.
+ * A message that reaches a standby already older than the standby window is
+ * backlog, never a failover. Ages are measured from when the Signal server
+ * received a message, never from the sender's clock.
+ *
+ * The ranking hashes the group ID over the configured bots, limited to the
+ * members in the GroupDirectory cache. Each process has its own cache (and its
+ * own demotions), so right after a membership change two processes can rank a
+ * group differently until their caches refresh. That only changes who emits:
+ * two bots acting as primary still claim through the deduplicator.
+ *
+ * A standby that ends up emitting is a failover. After enough consecutive
+ * failovers in a group the primary is moved to the back of that group's
+ * ranking (in this process), so a dead connection doesn't delay every message.
+ * Every bot's receipt of a message is recorded, which MessageConsistencyReceptor
+ * uses to see which bots got a message even though only one of them emitted it.
+ */
+
+import { createHash } from 'crypto';
+import type { MessageDeduplicator } from './message-deduplicator.js';
+import type { GroupDirectory } from './group-directory.js';
+import type { BotIdentities } from './message-identity.js';
+
+export interface GroupIngestionConfig {
+  bots: BotIdentities; // Every bot that may receive group messages
+  groupDirectory?: GroupDirectory; // Limits each group's ranking to bots that are members, when the group is cached
+  standbyWindow?: number; // How long each standby rank waits for the primary in milliseconds, default 1.5 seconds
+  failoversBeforeDemotion?: number; // Consecutive failovers before a group's primary is demoted, default 3
+  claimTtl?: number; // Keep claims until a message is this old in milliseconds, default 10 minutes
+  receiptTtl?: number; // How long receipts are kept for consistency checks in milliseconds, default 1 minute
+}
+
+/**
+ * A standby emitted because the primary didn't claim the message in time
+ */
+export interface GroupFailover {
+  groupId: string;
+  messageId: string;
+  primary: string; // botPhone of the primary that missed the window
+  standby: string; // botPhone that emitted instead
+  waited: number; // milliseconds the standby waited
+  consecutiveFailovers: number;
+  demoted: boolean; // Whether this failover demoted the primary
+}
+
+export interface IngestionDecision {
+  emit: boolean;
+  role: 'primary' | 'standby';
+  failover?: GroupFailover;
+}
+
+interface Receipt {
+  receivedBy: Set<string>;
+  firstSeenAt: number;
+}
+
+export class GroupIngestionCoordinator {
+  private config: Required<Omit<GroupIngestionConfig, 'groupDirectory'>> & Pick<GroupIngestionConfig, 'groupDirectory'>;
+  private demoted = new Map<string, string[]>(); // groupId -> demoted primaries, oldest first
+  private failovers = new Map<string, number>(); // groupId -> consecutive failovers
+  private receipts = new Map<string, Receipt>(); // messageId -> bots that received it
+  private lastCleanup = Date.now();
+
+  constructor(config: GroupIngestionConfig) {
+    this.config = {
+      bots: config.bots,
+      groupDirectory: config.groupDirectory,
+      standbyWindow: config.standbyWindow ?? 1500,
+      failoversBeforeDemotion: config.failoversBeforeDemotion ?? 3,
+      claimTtl: config.claimTtl ?? 10 * 60 * 1000,
+      receiptTtl: config.receiptTtl ?? 60000
+    };
+  }
+
+  /**
+   * Bots in the order they should receive a group's messages - primary first
+   */
+  ranking(groupId: string): string[] {
+    const members = this.config.groupDirectory?.peek(groupId)?.members;
+    const isMember = (phone: string) => !members ||
+      members.includes(phone) ||
+      members.includes(this.config.bots.botUuids.get(phone) || '');
+
+    // Rendezvous hashing: stable per group, spreads primaries across bots
+    const score = (phone: string) => createHash('sha1').update(`${groupId}:${phone}`).digest('hex');
+    const ranked = Array.from(this.config.bots.botNames.keys())
+      .filter(isMember)
+      .sort((a, b) => score(a).localeCompare(score(b)));
+
+    const demoted = this.demoted.get(groupId) || [];
+    return [
+      ...ranked.filter(phone => !demoted.includes(phone)),
+      ...demoted.filter(phone => ranked.includes(phone))
+    ];
+  }
+
+  /**
+   * Decide whether a bot emits a group event. The primary claims right away;
+   * a standby waits its rank's window and claims only if nobody has.
+   *
+   * @param receivedAt When the Signal server received the message (serverReceivedTimestamp), or when
+   *   it arrived here - claim expiry and backlog detection are based on its age. Not the envelope
+   *   timestamp: that comes from the sender's clock, which can be off by more than a standby window.
+   */
+  async admit(groupId: string, messageId: string, botPhone: string, deduplicator: MessageDeduplicator, receivedAt: number): Promise<IngestionDecision> {
+    this.recordReceipt(messageId, botPhone);
+
+    const ranking = this.ranking(groupId);
+    const rank = ranking.indexOf(botPhone);
+    const primary = ranking[0];
+
+    // Longest any standby waits - bots outside the ranking (e.g. not yet known as members) wait one rank longer
+    const standbyWindow = this.config.standbyWindow * (ranking.length + 1);
+    const age = Math.max(0, Date.now() - receivedAt);
+    const ttl = Math.max(this.config.claimTtl - age, standbyWindow * 2);
+
+    if (rank === 0 || !primary) {
+      const emit = await deduplicator.shouldEmit(messageId, botPhone, true, false, ttl);
+      if (emit) this.failovers.delete(groupId);
+      return { emit, role: 'primary' };
+    }
+
+    // Backlog (e.g. flushed after this bot reconnected) - the primary had its chance long ago,
+    // so claim without waiting and don't count it against the primary
+    if (age > standbyWindow) {
+      return { emit: await deduplicator.shouldEmit(messageId, botPhone, true, false, ttl), role: 'standby' };
+    }
+
+    const waited = this.config.standbyWindow * (rank === -1 ? ranking.length : rank);
+    await new Promise(resolve => setTimeout(resolve, waited));
+
+    if (!(await deduplicator.shouldEmit(messageId, botPhone, true, false, ttl))) {
+      return { emit: false, role: 'standby' };
+    }
+
+    const consecutiveFailovers = (this.failovers.get(groupId) || 0) + 1;
+    const demoted = consecutiveFailovers >= this.config.failoversBeforeDemotion;
+    if (demoted) {
+      this.demote(groupId, primary);
+      this.failovers.delete(groupId);
+    } else {
+      this.failovers.set(groupId, consecutiveFailovers);
+    }
+
+    console.warn(`[GroupIngestionCoordinator] Failover in ${groupId.substring(0, 20)}...: primary ${primary} missed ${messageId.substring(0, 40)}, emitted by ${botPhone} after ${waited}ms${demoted ? ' (primary demoted)' : ''}`);
+
+    return {
+      emit: true,
+      role: 'standby',
+      failover: { groupId, messageId, primary, standby: botPhone, waited, consecutiveFailovers, demoted }
+    };
+  }
+
+  /**
+   * Bots that have received a message so far (in this process)
+   */
+  receivedBy(messageId: string): string[] {
+    return Array.from(this.receipts.get(messageId)?.receivedBy || []);
+  }
+
+  /**
+   * Restore a group's original ranking, e.g. after a demoted bot reconnected
+   */
+  reset(groupId?: string): void {
+    if (groupId) {
+      this.demoted.delete(groupId);
+      this.failovers.delete(groupId);
+    } else {
+      this.demoted.clear();
+      this.failovers.clear();
+    }
+  }
+
+  private demote(groupId: string, botPhone: string): void {
+    const demoted = (this.demoted.get(groupId) || []).filter(phone => phone !== botPhone);
+    demoted.push(botPhone);
+    this.demoted.set(groupId, demoted);
+  }
+
+  private recordReceipt(messageId: string, botPhone: string): void {
+    this.cleanupIfNeeded();
+
+    let receipt = this.receipts.get(messageId);
+    if (!receipt) {
+      receipt = { receivedBy: new Set(), firstSeenAt: Date.now() };
+      this.receipts.set(messageId, receipt);
+    }
+    receipt.receivedBy.add(botPhone);
+  }
+
+  private cleanupIfNeeded(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < this.config.receiptTtl / 2) {
+      return;
+    }
+    this.lastCleanup = now;
+
+    for (const [messageId, receipt] of this.receipts) {
+      if (now - receipt.firstSeenAt >= this.config.receiptTtl) {
+        this.receipts.delete(messageId);
+      }
+    }
+  }
+}
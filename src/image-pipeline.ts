@@ -0,0 +1,106 @@
+/**
+ * ImagePipeline - Normalise images before they reach agents
+ *
+ * Phone photos arrive at full resolution with EXIF metadata (including GPS
+ * location). The pipeline auto-orients them, strips metadata, scales them
+ * within maxWidth/maxHeight and re-encodes them until they fit maxBytes.
+ */
+
+import sharp from 'sharp';
+
+export type ImageOutputFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ImagePipelineConfig {
+  maxBytes?: number; // Largest processed image, default 1 MB
+  maxWidth?: number; // pixels, default 2048
+  maxHeight?: number; // pixels, default 2048
+  format?: ImageOutputFormat; // Re-encode to this format, default 'jpeg'
+  quality?: number; // Initial encoder quality (1-100), default 85
+  minQuality?: number; // Quality floor before dimensions are reduced further, default 50
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  originalContentType: string;
+  originalSize: number; // bytes
+  processedSize: number; // bytes
+}
+
+const CONTENT_TYPES: Record<ImageOutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+// Give up shrinking below this many pixels on the longest side
+const MIN_DIMENSION = 256;
+
+export class ImagePipeline {
+  private config: Required<ImagePipelineConfig>;
+
+  constructor(config: ImagePipelineConfig = {}) {
+    this.config = {
+      maxBytes: config.maxBytes ?? 1024 * 1024,
+      maxWidth: config.maxWidth ?? 2048,
+      maxHeight: config.maxHeight ?? 2048,
+      format: config.format ?? 'jpeg',
+      quality: config.quality ?? 85,
+      minQuality: config.minQuality ?? 50
+    };
+  }
+
+  /**
+   * Normalise an image. Throws if the data can't be decoded as an image.
+   */
+  async process(data: Buffer, contentType: string): Promise<ProcessedImage> {
+    const { maxBytes, format, minQuality } = this.config;
+    let maxWidth = this.config.maxWidth;
+    let maxHeight = this.config.maxHeight;
+    let quality = this.config.quality;
+
+    let output = await this.encode(data, maxWidth, maxHeight, quality);
+
+    // Lower quality first, then dimensions, until the image fits
+    while (output.data.length > maxBytes) {
+      if (format !== 'png' && quality > minQuality) {
+        quality = Math.max(minQuality, quality - 10);
+      } else if (Math.max(output.info.width, output.info.height) > MIN_DIMENSION) {
+        maxWidth = Math.max(MIN_DIMENSION, Math.round(output.info.width * 0.75));
+        maxHeight = Math.max(MIN_DIMENSION, Math.round(output.info.height * 0.75));
+      } else {
+        break; // Already tiny - return the smallest we can make
+      }
+      output = await this.encode(data, maxWidth, maxHeight, quality);
+    }
+
+    return {
+      data: output.data,
+      contentType: CONTENT_TYPES[format],
+      width: output.info.width,
+      height: output.info.height,
+      originalContentType: contentType,
+      originalSize: data.length,
+      processedSize: output.data.length
+    };
+  }
+
+  private encode(data: Buffer, maxWidth: number, maxHeight: number, quality: number) {
+    // rotate() applies the EXIF orientation; sharp drops all metadata on output unless asked to keep it
+    const image = sharp(data, { failOn: 'none' })
+      .rotate()
+      .resize({ width: maxWidth, height: maxHeight, fit: 'inside', withoutEnlargement: true });
+
+    switch (this.config.format) {
+      case 'png':
+        return image.png({ compressionLevel: 9 }).toBuffer({ resolveWithObject: true });
+      case 'webp':
+        return image.webp({ quality }).toBuffer({ resolveWithObject: true });
+      default:
+        // Flatten transparency onto white - JPEG has no alpha channel
+        return image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+    }
+  }
+}
@@ -4,19 +4,148 @@
  * Exports RETM components for Signal messenger integration
  */
 
-import { SignalAfferent, SignalAfferentConfig } from './signal-afferent';
-import { SignalMessageReceptor, SignalReceiptReceptor, SignalTypingReceptor, SignalReceptorConfig } from './signal-receptor';
+import { SignalAfferent, SignalAfferentConfig, SignalAfferentStatus, SignalAfferentCommand, createReconnectHandler } from './signal-afferent';
+import { SignalMessageReceptor, SignalReactionReceptor, SignalEditReceptor, SignalDeleteReceptor, SignalReceiptReceptor, SignalTypingReceptor, SignalGroupReceptor, SignalProfileReceptor, SignalReceptorConfig } from './signal-receptor';
 import { SignalSpeechEffector, SignalCommandEffector, SignalEffectorConfig, ConfigUpdateCallback } from './signal-effector';
 import { MessageConsistencyReceptor, MessageConsistencyConfig } from './message-consistency-receptor';
-import { messageDeduplicator } from './message-deduplicator';
+import { SignalConnectionStatusReceptor } from './connection-status-receptor';
+import { SignalCatchUpReceptor, catchUpStartedAt } from './catch-up-receptor';
+import { SignalDeliveryReliabilityReceptor, DeliveryReliabilityConfig } from './delivery-reliability-receptor';
+import { IngestQueue, IngestSlot } from './ingest-queue';
+import { BackoffReconnectPolicy, BackoffReconnectPolicyConfig, ReconnectPolicy, ReconnectDecision, CircuitState } from './reconnect-policy';
+import { AttachmentStore, StoredAttachment, LocalAttachmentStore, LocalAttachmentStoreConfig, loadAttachmentData } from './attachment-store';
+import {
+  AttachmentProcessor,
+  AttachmentProcessorRegistry,
+  AttachmentInput,
+  DerivedContent,
+  TextAttachmentProcessor,
+  PdfTextProcessor,
+  TranscriptionProcessor,
+  TranscribeFn,
+  VideoMetadataProcessor,
+  ExtractFrameFn,
+  StubAttachmentProcessor,
+  createDefaultAttachmentProcessors
+} from './attachment-processors';
+import { ImagePipeline, ImagePipelineConfig, ImageOutputFormat, ProcessedImage } from './image-pipeline';
+import { SignalGroupSnapshot, fetchGroups } from './signal-groups';
+import { GroupDirectory, GroupDirectoryConfig } from './group-directory';
+import {
+  SignalProfileSnapshot,
+  toProfileSnapshot,
+  fetchProfiles,
+  fetchAvatarHash,
+  profileSignature,
+  upsertProfileFacet,
+  resolveMentionName,
+  mentionTargets
+} from './signal-profiles';
+import { ProfileSync, ProfileSyncConfig } from './profile-sync';
+import {
+  SignalRestClient,
+  SignalRestClientConfig,
+  SignalApiError,
+  SignalApiErrorKind,
+  SendMessageRequest,
+  SendMessageResponse,
+  SignalMentionRequest,
+  RestGroup,
+  ReactionRequest,
+  ReceiptRequest,
+  UpdateProfileRequest,
+  RestContact,
+  RestIdentity,
+  TrustIdentityRequest
+} from './signal-rest-client';
+import {
+  SignalMention,
+  SignalAttachment,
+  SignalGroupInfo,
+  SignalQuote,
+  SignalReaction,
+  SignalDataMessage,
+  SignalSentMessage,
+  SignalSyncMessage,
+  SignalReceiptMessage,
+  SignalTypingMessage,
+  SignalEditMessage,
+  SignalStoryMessage,
+  SignalCallMessage,
+  SignalEnvelope,
+  SignalReceivedMessage,
+  SignalAttachmentEntry,
+  SignalConversationPayload,
+  SignalMessagePayload,
+  SignalEditPayload,
+  SignalDeletePayload,
+  SignalReactionPayload,
+  SignalReceiptEntry,
+  SignalReceiptPayload,
+  SignalTypingPayload,
+  SignalGroupUpdatePayload,
+  SignalProfileUpdatePayload,
+  SignalGroupFailoverPayload,
+  SignalConsistencyReportPayload,
+  SignalReplayExpiredPayload,
+  SignalConnectionStatusPayload,
+  SignalCatchUpPayload,
+  SignalSentPayload,
+  SignalSendErrorPayload,
+  ValidationResult,
+  validateReceivedMessage
+} from './signal-types';
+import {
+  SenderIdentity,
+  BotIdentities,
+  isUuid,
+  isPhoneNumber,
+  isUsername,
+  senderKey,
+  senderAliases,
+  messageKey,
+  messageFacetId,
+  findMessageFacet,
+  profileFacetId,
+  findProfileFacet,
+  recipientAddress,
+  findBotPhone,
+  findBotSender,
+  resolveDmStream
+} from './message-identity';
+import {
+  messageDeduplicator,
+  MessageDeduplicator,
+  MessageDeduplicatorConfig,
+  DedupStore,
+  MemoryDedupStore,
+  FileDedupStore,
+  FileDedupStoreConfig
+} from './message-deduplicator';
+import { ReplayQueue, ReplayQueueConfig, ReplayItem, replayActivationId } from './replay-queue';
+import { ReplayAcknowledgementEffector } from './replay-acknowledgement-effector';
+import { GroupIngestionCoordinator, GroupIngestionConfig, GroupFailover, IngestionDecision } from './group-ingestion';
 
 // Re-export types and classes
 export {
   SignalAfferent,
   SignalAfferentConfig,
+  SignalAfferentStatus,
+  SignalAfferentCommand,
+  createReconnectHandler,
+  ReconnectPolicy,
+  ReconnectDecision,
+  CircuitState,
+  BackoffReconnectPolicy,
+  BackoffReconnectPolicyConfig,
   SignalMessageReceptor,
+  SignalReactionReceptor,
+  SignalEditReceptor,
+  SignalDeleteReceptor,
   SignalReceiptReceptor,
   SignalTypingReceptor,
+  SignalGroupReceptor,
+  SignalProfileReceptor,
   SignalReceptorConfig,
   SignalSpeechEffector,
   SignalCommandEffector,
@@ -24,7 +153,129 @@ export {
   ConfigUpdateCallback,
   MessageConsistencyReceptor,
   MessageConsistencyConfig,
-  messageDeduplicator
+  SignalConnectionStatusReceptor,
+  SignalCatchUpReceptor,
+  catchUpStartedAt,
+  SignalDeliveryReliabilityReceptor,
+  DeliveryReliabilityConfig,
+  IngestQueue,
+  IngestSlot,
+  AttachmentStore,
+  StoredAttachment,
+  LocalAttachmentStore,
+  LocalAttachmentStoreConfig,
+  loadAttachmentData,
+  AttachmentProcessor,
+  AttachmentProcessorRegistry,
+  AttachmentInput,
+  DerivedContent,
+  TextAttachmentProcessor,
+  PdfTextProcessor,
+  TranscriptionProcessor,
+  TranscribeFn,
+  VideoMetadataProcessor,
+  ExtractFrameFn,
+  StubAttachmentProcessor,
+  createDefaultAttachmentProcessors,
+  ImagePipeline,
+  ImagePipelineConfig,
+  ImageOutputFormat,
+  ProcessedImage,
+  SignalGroupSnapshot,
+  fetchGroups,
+  GroupDirectory,
+  GroupDirectoryConfig,
+  SignalProfileSnapshot,
+  toProfileSnapshot,
+  fetchProfiles,
+  fetchAvatarHash,
+  profileSignature,
+  upsertProfileFacet,
+  resolveMentionName,
+  mentionTargets,
+  ProfileSync,
+  ProfileSyncConfig,
+  SignalRestClient,
+  SignalRestClientConfig,
+  SignalApiError,
+  SignalApiErrorKind,
+  SendMessageRequest,
+  SendMessageResponse,
+  SignalMentionRequest,
+  RestGroup,
+  ReactionRequest,
+  ReceiptRequest,
+  UpdateProfileRequest,
+  RestContact,
+  RestIdentity,
+  TrustIdentityRequest,
+  SignalMention,
+  SignalAttachment,
+  SignalGroupInfo,
+  SignalQuote,
+  SignalReaction,
+  SignalDataMessage,
+  SignalSentMessage,
+  SignalSyncMessage,
+  SignalReceiptMessage,
+  SignalTypingMessage,
+  SignalEditMessage,
+  SignalStoryMessage,
+  SignalCallMessage,
+  SignalEnvelope,
+  SignalReceivedMessage,
+  SignalAttachmentEntry,
+  SignalConversationPayload,
+  SignalMessagePayload,
+  SignalEditPayload,
+  SignalDeletePayload,
+  SignalReactionPayload,
+  SignalReceiptEntry,
+  SignalReceiptPayload,
+  SignalTypingPayload,
+  SignalGroupUpdatePayload,
+  SignalProfileUpdatePayload,
+  SignalGroupFailoverPayload,
+  SignalConsistencyReportPayload,
+  SignalReplayExpiredPayload,
+  SignalConnectionStatusPayload,
+  SignalCatchUpPayload,
+  SignalSentPayload,
+  SignalSendErrorPayload,
+  ValidationResult,
+  validateReceivedMessage,
+  SenderIdentity,
+  BotIdentities,
+  isUuid,
+  isPhoneNumber,
+  isUsername,
+  senderKey,
+  senderAliases,
+  messageKey,
+  messageFacetId,
+  findMessageFacet,
+  profileFacetId,
+  findProfileFacet,
+  recipientAddress,
+  findBotPhone,
+  findBotSender,
+  resolveDmStream,
+  messageDeduplicator,
+  MessageDeduplicator,
+  MessageDeduplicatorConfig,
+  DedupStore,
+  MemoryDedupStore,
+  FileDedupStore,
+  FileDedupStoreConfig,
+  GroupIngestionCoordinator,
+  GroupIngestionConfig,
+  GroupFailover,
+  IngestionDecision,
+  ReplayQueue,
+  ReplayQueueConfig,
+  ReplayItem,
+  ReplayAcknowledgementEffector,
+  replayActivationId
 };
 
 /**
@@ -39,21 +290,44 @@ export function createSignalComponents(config: {
   apiUrl: string;
   botUuids: Map<string, string>;
   botNames: Map<string, string>;
+  botUsernames?: Map<string, string>;
+  restClient?: SignalRestClient;
+  groupDirectory?: GroupDirectory;
+  profileSync?: ProfileSync;
+  deduplicator?: MessageDeduplicator;
+  groupIngestion?: GroupIngestionCoordinator;
 }) {
   const afferent = new SignalAfferent();
 
+  // Pass the same client, directory and profile sync to every bot so configuration, group lookups and profile changes are shared
+  const restClient = config.restClient || new SignalRestClient({ baseUrl: config.apiUrl });
+  const groupDirectory = config.groupDirectory || new GroupDirectory({ client: restClient });
+  const profileSync = config.profileSync || new ProfileSync({ client: restClient });
+
   const receptorConfig: SignalReceptorConfig = {
     botUuids: config.botUuids,
-    botNames: config.botNames
+    botNames: config.botNames,
+    botUsernames: config.botUsernames,
+    groupDirectory
   };
 
   const messageReceptor = new SignalMessageReceptor(receptorConfig);
+  const reactionReceptor = new SignalReactionReceptor(receptorConfig);
+  const editReceptor = new SignalEditReceptor(receptorConfig);
+  const deleteReceptor = new SignalDeleteReceptor(receptorConfig);
   const receiptReceptor = new SignalReceiptReceptor();
   const typingReceptor = new SignalTypingReceptor();
+  const groupReceptor = new SignalGroupReceptor(receptorConfig);
+  const profileReceptor = new SignalProfileReceptor();
+  const connectionStatusReceptor = new SignalConnectionStatusReceptor();
+  const catchUpReceptor = new SignalCatchUpReceptor();
 
   const effectorConfig: SignalEffectorConfig = {
     apiUrl: config.apiUrl,
-    botNames: config.botNames
+    botNames: config.botNames,
+    botUuids: config.botUuids,
+    restClient,
+    groupDirectory
   };
 
   const speechEffector = new SignalSpeechEffector(effectorConfig);
@@ -62,12 +336,24 @@ export function createSignalComponents(config: {
     afferent,
     afferentConfig: {
       botPhone: config.botPhone,
-      wsUrl: config.wsUrl
+      wsUrl: config.wsUrl,
+      restClient,
+      groupDirectory,
+      profileSync,
+      deduplicator: config.deduplicator,
+      groupIngestion: config.groupIngestion
     },
     receptors: {
       message: messageReceptor,
+      reaction: reactionReceptor,
+      edit: editReceptor,
+      delete: deleteReceptor,
       receipt: receiptReceptor,
-      typing: typingReceptor
+      typing: typingReceptor,
+      group: groupReceptor,
+      profile: profileReceptor,
+      connectionStatus: connectionStatusReceptor,
+      catchUp: catchUpReceptor
     },
     effectors: {
       speech: speechEffector
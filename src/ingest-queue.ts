@@ -0,0 +1,129 @@
+/**
+ * IngestQueue - Keeps each conversation's events in envelope timestamp order
+ *
+ * Envelopes are handled concurrently (attachment downloads, group lookups),
+ * so a message with an attachment could otherwise be emitted after a text
+ * message sent later in the same conversation - which is exactly what
+ * happens when signal-cli flushes a backlog after a reconnect. Each envelope
+ * reserves a slot as soon as it arrives, before anything is awaited; slots
+ * are delivered in timestamp order once every earlier slot of the same
+ * conversation has been released.
+ *
+ * A slot that isn't released within the timeout stops holding up its
+ * conversation and is delivered whenever it completes.
+ */
+
+export interface IngestSlot {
+  /**
+   * Mark the envelope as handled. `deliver` runs once every earlier slot of the
+   * conversation has been delivered; omit it when there is nothing to emit.
+   * Only the first call has any effect.
+   */
+  release(deliver?: () => void): void;
+}
+
+interface PendingSlot {
+  timestamp: number;
+  released: boolean;
+  expired: boolean;
+  deliver?: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+export class IngestQueue {
+  private conversations = new Map<string, PendingSlot[]>(); // conversation key -> undelivered slots in order
+
+  constructor(private timeout: number = 60000) {}
+
+  /**
+   * Reserve a conversation's next slot for an envelope
+   */
+  reserve(conversationKey: string, timestamp: number): IngestSlot {
+    const pending = this.conversations.get(conversationKey) || [];
+    const slot: PendingSlot = { timestamp, released: false, expired: false };
+
+    // After every undelivered slot with an earlier (or equal) timestamp
+    let index = pending.length;
+    while (index > 0 && pending[index - 1].timestamp > timestamp) {
+      index--;
+    }
+    pending.splice(index, 0, slot);
+    this.conversations.set(conversationKey, pending);
+
+    slot.timer = setTimeout(() => this.expire(conversationKey, slot), this.timeout);
+
+    return {
+      release: (deliver?: () => void) => this.release(conversationKey, slot, deliver)
+    };
+  }
+
+  /**
+   * Number of reserved slots not yet delivered, across all conversations
+   */
+  get size(): number {
+    let size = 0;
+    for (const pending of this.conversations.values()) {
+      size += pending.length;
+    }
+    return size;
+  }
+
+  /**
+   * Drop every pending slot - envelopes still being handled are never delivered
+   */
+  clear(): void {
+    for (const pending of this.conversations.values()) {
+      for (const slot of pending) {
+        clearTimeout(slot.timer);
+        slot.released = true;
+      }
+    }
+    this.conversations.clear();
+  }
+
+  private release(conversationKey: string, slot: PendingSlot, deliver?: () => void): void {
+    if (slot.released) return;
+    slot.released = true;
+    slot.deliver = deliver;
+    clearTimeout(slot.timer);
+
+    if (slot.expired) {
+      // Already skipped by the queue - deliver late rather than not at all
+      this.deliver(slot);
+      return;
+    }
+    this.drain(conversationKey);
+  }
+
+  private expire(conversationKey: string, slot: PendingSlot): void {
+    const pending = this.conversations.get(conversationKey);
+    const index = pending?.indexOf(slot) ?? -1;
+    if (!pending || index === -1) return;
+
+    console.warn(`[IngestQueue] Envelope ${slot.timestamp} not handled after ${this.timeout}ms, no longer holding up ${conversationKey.substring(0, 20)}...`);
+    slot.expired = true;
+    pending.splice(index, 1);
+    this.drain(conversationKey);
+  }
+
+  private drain(conversationKey: string): void {
+    const pending = this.conversations.get(conversationKey);
+    if (!pending) return;
+
+    while (pending.length > 0 && pending[0].released) {
+      this.deliver(pending.shift()!);
+    }
+
+    if (pending.length === 0) {
+      this.conversations.delete(conversationKey);
+    }
+  }
+
+  private deliver(slot: PendingSlot): void {
+    try {
+      slot.deliver?.();
+    } catch (error) {
+      console.error('[IngestQueue] Error delivering envelope:', error);
+    }
+  }
+}
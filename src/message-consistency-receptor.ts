@@ -2,29 +2,49 @@
  * MessageConsistencyReceptor - Ensures mentioned bots receive messages
  *
  * Tracks which bots receive each message and triggers reconnection
- * if a mentioned bot didn't receive it.
+ * if a mentioned bot didn't receive it. The outcome of every check is
+ * emitted as a signal:consistency-report event, which
+ * SignalDeliveryReliabilityReceptor turns into per-bot reliability facets.
  */
 
 import { BaseReceptor } from 'connectome-ts';
 import type { SpaceEvent, VEILDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { SignalMessagePayload, SignalConsistencyReportPayload } from './signal-types.js';
+import { messageKey, findBotPhone, findBotSender } from './message-identity.js';
+import type { GroupIngestionCoordinator } from './group-ingestion.js';
+import type { ReplayQueue } from './replay-queue.js';
 
 export interface MessageConsistencyConfig {
   // Map of bot phone numbers to their names
   botNames: Map<string, string>;
   // Map of bot phone numbers to their UUIDs
   botUuids: Map<string, string>;
+  // Map of bot phone numbers to their Signal usernames
+  botUsernames?: Map<string, string>;
   // Callback to reconnect a bot's WebSocket and queue a message for re-processing
-  reconnectBot: (botPhone: string, queuedMessage?: any) => void;
+  // (createReconnectHandler builds one that drives SignalAfferent commands)
+  reconnectBot: (botPhone: string, queuedMessage?: SignalMessagePayload) => void;
+  // Coordinator shared with the afferents - only one bot emits each group message,
+  // so the others' receipts come from the coordinator rather than from events
+  groupIngestion?: GroupIngestionCoordinator;
+  // Queue missed messages for targeted bots and retry until they are activated,
+  // instead of calling reconnectBot once (bot-authored messages still use reconnectBot,
+  // since re-processed bot messages never activate)
+  replayQueue?: ReplayQueue;
+  // Emit events into the space (e.g. event => space.emit(event)) - without it
+  // signal:consistency-report events are not emitted and results are only logged
+  emitEvent?: (event: SpaceEvent) => void;
 }
 
 interface MessageTracker {
   messageId: string;
+  groupId: string;
   timestamp: number;
   receivedBy: Set<string>;
   mentions: Array<{ uuid?: string; number?: string }>;
   quote?: { authorUuid?: string; author?: string }; // Quote info if message is a reply
   timeout: NodeJS.Timeout;
-  messagePayload: any; // Store the full message payload for re-processing
+  messagePayload: SignalMessagePayload; // Store the full message payload for re-processing
   isBotMessage: boolean; // Whether this message is from another bot
 }
 
@@ -33,6 +53,7 @@ export class MessageConsistencyReceptor extends BaseReceptor {
 
   private config: MessageConsistencyConfig;
   private messageTrackers = new Map<string, MessageTracker>();
+  private latestState?: ReadonlyVEILState; // for the replay queue's activation check, which runs after the delay
   private readonly CONSISTENCY_CHECK_DELAY = 2000; // 2 seconds to wait for all bots
 
   constructor(config: MessageConsistencyConfig) {
@@ -41,18 +62,20 @@ export class MessageConsistencyReceptor extends BaseReceptor {
   }
 
   transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
-    const payload = event.payload as any;
-    const { source, sourceUuid, timestamp, botPhone, mentions, quote, groupId } = payload;
+    this.latestState = state;
+    const payload = event.payload as SignalMessagePayload;
+    const { timestamp, botPhone, mentions, quote, groupId, isOutgoing } = payload;
 
-    // Only check consistency for group messages
-    if (!groupId) {
+    // Only check consistency for group messages received from others
+    // (outgoing sync messages only ever reach the sending bot)
+    if (!groupId || isOutgoing) {
       return [];
     }
 
     // Check if the message is from a bot
-    const isBotMessage = Array.from(this.config.botUuids.values()).includes(sourceUuid);
+    const isBotMessage = !!findBotSender(this.config, payload);
 
-    const messageId = `${source}-${timestamp}`;
+    const messageId = messageKey(payload, timestamp);
 
     // Get or create tracker for this message
     let tracker = this.messageTrackers.get(messageId);
@@ -60,6 +83,7 @@ export class MessageConsistencyReceptor extends BaseReceptor {
     if (!tracker) {
       tracker = {
         messageId,
+        groupId,
         timestamp,
         receivedBy: new Set(),
         mentions: mentions || [],
@@ -81,34 +105,33 @@ export class MessageConsistencyReceptor extends BaseReceptor {
     const tracker = this.messageTrackers.get(messageId);
     if (!tracker) return;
 
-    const totalBots = this.config.botNames.size;
+    // Clean up tracker
+    this.messageTrackers.delete(messageId);
+
+    // Group deduplication lets only one bot emit each message, so the other bots' receipts are
+    // only known through the ingestion coordinator - without it, a miss can't be told from a skip
+    const { groupIngestion } = this.config;
+    const receiptsObserved = !!groupIngestion;
+
+    // Bots that should have received the message: the group's members, as far as the coordinator knows them
+    const expectedBots = groupIngestion ? groupIngestion.ranking(tracker.groupId) : Array.from(this.config.botNames.keys());
     const receivedBy = tracker.receivedBy;
-    const missingBots = new Set<string>();
+    for (const botPhone of groupIngestion?.receivedBy(messageId) || []) {
+      receivedBy.add(botPhone);
+    }
 
     // Find which bots didn't receive the message
-    for (const botPhone of this.config.botNames.keys()) {
-      if (!receivedBy.has(botPhone)) {
-        missingBots.add(botPhone);
-      }
-    }
+    const missingBots = receiptsObserved ? expectedBots.filter(botPhone => !receivedBy.has(botPhone)) : [];
 
     // Check if any mentioned or quoted bots missed the message
     const targetedMissingBots = new Set<string>();
 
     // Check mentions
     for (const mention of tracker.mentions) {
-      const mentionUuid = mention.uuid;
-      const mentionNumber = mention.number;
-
       // Find which bot was mentioned
-      for (const [botPhone, botUuid] of this.config.botUuids.entries()) {
-        if ((mentionUuid && mentionUuid === botUuid) ||
-            (mentionNumber && mentionNumber === botPhone)) {
-          if (missingBots.has(botPhone)) {
-            targetedMissingBots.add(botPhone);
-          }
-          break;
-        }
+      const botPhone = findBotPhone(this.config, mention.uuid) || findBotPhone(this.config, mention.number);
+      if (botPhone && missingBots.includes(botPhone)) {
+        targetedMissingBots.add(botPhone);
       }
     }
 
@@ -118,68 +141,53 @@ export class MessageConsistencyReceptor extends BaseReceptor {
 
     // Check quote/reply - if message quotes a bot, that bot should receive it
     if (tracker.quote) {
-      const quoteAuthorUuid = tracker.quote.authorUuid;
-      const quoteAuthor = tracker.quote.author;
-
-      for (const [botPhone, botUuid] of this.config.botUuids.entries()) {
-        if ((quoteAuthorUuid && quoteAuthorUuid === botUuid) ||
-            (quoteAuthor && quoteAuthor === botPhone)) {
-          if (missingBots.has(botPhone)) {
-            console.log(`[MessageConsistencyReceptor] Quoted bot ${botPhone} (uuid: ${botUuid}) missed the message`);
-            targetedMissingBots.add(botPhone);
-          }
-          break;
-        }
+      const botPhone = findBotPhone(this.config, tracker.quote.authorUuid) || findBotPhone(this.config, tracker.quote.author);
+      if (botPhone && missingBots.includes(botPhone)) {
+        targetedMissingBots.add(botPhone);
       }
     }
 
-    // Log results
-    if (missingBots.size > 0) {
-      console.log('\n============================================================');
-      console.log('MESSAGE CONSISTENCY CHECK');
-      console.log('============================================================');
-      console.log(`Message ID: ${messageId}`);
-      console.log(`Received by: ${receivedBy.size}/${totalBots} bots`);
-      if (tracker.quote) {
-        console.log(`Quote/Reply to: ${tracker.quote.authorUuid || tracker.quote.author}`);
+    // Reconnect targeted bots and queue the message for re-processing
+    const replayQueue = tracker.isBotMessage ? undefined : this.config.replayQueue;
+    for (const botPhone of targetedMissingBots) {
+      const botName = this.config.botNames.get(botPhone) || 'unknown';
+      if (replayQueue) {
+        console.log(`[MessageConsistencyReceptor] Targeted bot [${botPhone}] (${botName}) missed ${messageId.substring(0, 40)}..., queueing it for replay unless it was activated already`);
+        replayQueue.enqueue(botPhone, tracker.messagePayload, this.latestState).catch(error => {
+          console.error(`[MessageConsistencyReceptor] Could not queue replay for ${botPhone}:`, error instanceof Error ? error.message : String(error));
+        });
+        continue;
       }
 
-      if (targetedMissingBots.size > 0) {
-        console.log('\n⚠ TARGETED bots (mentioned/quoted) that MISSED the message:');
-        for (const phone of targetedMissingBots) {
-          const botName = this.config.botNames.get(phone) || 'unknown';
-          console.log(`  ✗ [${phone}] (${botName}) - WILL RECONNECT`);
-        }
-
-        // Reconnect targeted bots and queue the message for re-processing
-        console.log(`\nReconnecting ${targetedMissingBots.size} targeted bot(s)...`);
-        for (const botPhone of targetedMissingBots) {
-          const botName = this.config.botNames.get(botPhone) || 'unknown';
-          console.log(`  → Reconnecting [${botPhone}] (${botName}) and queueing message for re-processing`);
-          // Pass the message payload so it can be re-processed after reconnection
-          this.config.reconnectBot(botPhone, tracker.messagePayload);
-        }
-      }
-
-      const otherMissing = new Set([...missingBots].filter(p => !targetedMissingBots.has(p)));
-      if (otherMissing.size > 0) {
-        console.log('\nOther bots that missed (not mentioned/quoted, ignoring):');
-        for (const phone of otherMissing) {
-          const botName = this.config.botNames.get(phone) || 'unknown';
-          console.log(`  • [${phone}] (${botName})`);
-        }
-      }
-
-      if (targetedMissingBots.size === 0) {
-        console.log('\nℹ No targeted bots missed the message, no reconnection needed');
-      }
+      console.log(`[MessageConsistencyReceptor] Targeted bot [${botPhone}] (${botName}) missed ${messageId.substring(0, 40)}..., reconnecting and queueing it for re-processing`);
+      // Pass the message payload so it can be re-processed after reconnection
+      this.config.reconnectBot(botPhone, tracker.messagePayload);
+    }
 
-      console.log('============================================================\n');
+    if (!receiptsObserved) {
+      console.log(`[MessageConsistencyReceptor] ${messageId.substring(0, 40)}... emitted by ${receivedBy.size} bot(s), receipts of the others are not observed without groupIngestion`);
+    } else if (missingBots.length > 0) {
+      console.log(`[MessageConsistencyReceptor] ${messageId.substring(0, 40)}... received by ${receivedBy.size}/${expectedBots.length} bots, missed by ${missingBots.join(', ')}`);
     } else {
-      console.log(`✓ Message consistency OK: ${messageId.substring(0, 40)}... (${receivedBy.size}/${totalBots} bots)`);
+      console.log(`✓ Message consistency OK: ${messageId.substring(0, 40)}... (${receivedBy.size}/${expectedBots.length} bots)`);
     }
 
-    // Clean up tracker
-    this.messageTrackers.delete(messageId);
+    this.config.emitEvent?.({
+      topic: 'signal:consistency-report',
+      source: { elementId: 'message-consistency-receptor', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        messageId,
+        groupId: tracker.groupId,
+        messageTimestamp: tracker.timestamp,
+        receiptsObserved,
+        expectedBots,
+        receivedBy: Array.from(receivedBy),
+        missingBots,
+        targetedBots: Array.from(targetedMissingBots),
+        action: targetedMissingBots.size === 0 ? 'none' : replayQueue ? 'replay-queued' : 'reconnect',
+        timestamp: Date.now()
+      } satisfies SignalConsistencyReportPayload
+    });
   }
 }
@@ -8,51 +8,56 @@
  *
  * DMs are not deduplicated (only one bot receives them anyway).
  * Re-processed messages from the consistency checker bypass deduplication.
+ *
+ * Claims are kept in a DedupStore. The default MemoryDedupStore only sees bots
+ * in the same Node process; bots running in separate processes need a shared
+ * store, such as FileDedupStore on a shared directory or a Redis-backed store.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import type { Stats } from 'fs';
+import * as path from 'path';
+
+/**
+ * Storage for message claims. claim() must be atomic across everything that
+ * shares the store: exactly one caller gets true for a message ID within the
+ * TTL. A Redis implementation maps directly onto
+ * `SET <prefix><messageId> <botPhone> NX PX <ttl>`.
  */
+export interface DedupStore {
+  /**
+   * Claim a message for a bot. Resolves true if nobody claimed it within the last `ttl` milliseconds.
+   */
+  claim(messageId: string, botPhone: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Bot that claimed a message, if known (for debugging)
+   */
+  getFirstReceiver(messageId: string): Promise<string | undefined>;
+}
 
 interface SeenMessage {
   firstReceiver: string;
   timestamp: number;
+  ttl: number;
 }
 
-class MessageDeduplicator {
+/**
+ * In-process store - deduplicates bots sharing one Node process
+ */
+export class MemoryDedupStore implements DedupStore {
   private seenMessages = new Map<string, SeenMessage>();
-  private readonly TTL = 10000; // 10 second window for deduplication
   private lastCleanup = Date.now();
   private readonly CLEANUP_INTERVAL = 5000; // Cleanup every 5 seconds
 
-  /**
-   * Check if this bot should emit an event for this message.
-   *
-   * @param messageId Unique message identifier (source-timestamp)
-   * @param botPhone The bot phone number checking
-   * @param isGroupMessage Whether this is a group message
-   * @param isReprocessed Whether this is a re-processed message from consistency checker
-   * @returns true if this bot should emit, false if another bot already emitted
-   */
-  shouldEmit(
-    messageId: string,
-    botPhone: string,
-    isGroupMessage: boolean,
-    isReprocessed: boolean = false
-  ): boolean {
-    // DMs always emit - only one bot receives them
-    if (!isGroupMessage) {
-      return true;
-    }
-
-    // Re-processed messages from consistency checker always emit
-    // These are intentional re-triggers for bots that missed the original
-    if (isReprocessed) {
-      return true;
-    }
-
+  async claim(messageId: string, botPhone: string, ttl: number): Promise<boolean> {
     // Periodic cleanup of old entries
     this.cleanupIfNeeded();
 
     // Check if already seen
     const existing = this.seenMessages.get(messageId);
-    if (existing) {
+    if (existing && Date.now() - existing.timestamp < existing.ttl) {
       // Another bot already emitted this message
       return false;
     }
@@ -60,17 +65,31 @@ class MessageDeduplicator {
     // First receiver - mark and allow emit
     this.seenMessages.set(messageId, {
       firstReceiver: botPhone,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ttl
     });
 
     return true;
   }
 
+  async getFirstReceiver(messageId: string): Promise<string | undefined> {
+    return this.seenMessages.get(messageId)?.firstReceiver;
+  }
+
   /**
-   * Get info about who first received a message (for debugging)
+   * Get current stats (for debugging)
    */
-  getFirstReceiver(messageId: string): string | undefined {
-    return this.seenMessages.get(messageId)?.firstReceiver;
+  getStats(): { trackedMessages: number; oldestTimestamp: number | null } {
+    let oldest: number | null = null;
+    for (const data of this.seenMessages.values()) {
+      if (oldest === null || data.timestamp < oldest) {
+        oldest = data.timestamp;
+      }
+    }
+    return {
+      trackedMessages: this.seenMessages.size,
+      oldestTimestamp: oldest
+    };
   }
 
   private cleanupIfNeeded(): void {
@@ -80,31 +99,220 @@ class MessageDeduplicator {
     }
 
     this.lastCleanup = now;
-    const expiry = now - this.TTL;
 
     for (const [id, data] of this.seenMessages) {
-      if (data.timestamp < expiry) {
+      if (now - data.timestamp >= data.ttl) {
         this.seenMessages.delete(id);
       }
     }
   }
+}
+
+export interface FileDedupStoreConfig {
+  directory: string; // Shared by every process whose bots should be deduplicated (must be on a local filesystem)
+  cleanupInterval?: number; // Minimum time between sweeps of expired claim files in milliseconds, default 1 minute
+}
+
+/**
+ * Cross-process store using one lock file per message. Creating a file with
+ * the 'wx' flag fails if it already exists, which makes the claim atomic for
+ * every process on the machine. Expired claim files are replaced on the next
+ * claim and swept periodically.
+ *
+ * Several processes can see the same claim file expire. Before replacing or
+ * removing it, a process has to create a takeover marker named after that
+ * particular file (inode and mtime), again with 'wx' - only one process wins
+ * it, and a claim file that was already replaced has a different marker name.
+ * The winner swaps the new claim in with a rename, so the claim never goes
+ * missing for someone else to create in between.
+ */
+export class FileDedupStore implements DedupStore {
+  private config: Required<FileDedupStoreConfig>;
+  private ready?: Promise<void>;
+  private lastCleanup = Date.now();
+
+  constructor(config: FileDedupStoreConfig) {
+    this.config = {
+      directory: config.directory,
+      cleanupInterval: config.cleanupInterval ?? 60000
+    };
+  }
+
+  async claim(messageId: string, botPhone: string, ttl: number): Promise<boolean> {
+    await this.ensureDirectory();
+    this.cleanupIfNeeded(ttl);
+
+    const file = this.fileFor(messageId);
+    if (await this.create(file, botPhone)) {
+      return true;
+    }
+
+    // Someone holds the claim - take it over only if it expired
+    const stat = await fs.stat(file).catch(() => null);
+    if (!stat) {
+      return this.create(file, botPhone); // Swept in the meantime
+    }
+    if (Date.now() - stat.mtimeMs < ttl) {
+      return false;
+    }
+
+    if (!(await this.create(this.takeoverFor(file, stat), botPhone))) {
+      return false; // Another process is taking over the same claim
+    }
+
+    const tempPath = `${file}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, botPhone);
+    await fs.rename(tempPath, file);
+    return true;
+  }
+
+  async getFirstReceiver(messageId: string): Promise<string | undefined> {
+    try {
+      return (await fs.readFile(this.fileFor(messageId), 'utf8')) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Create the claim file, resolving false if it already exists
+   */
+  private async create(file: string, botPhone: string): Promise<boolean> {
+    try {
+      const handle = await fs.open(file, 'wx');
+      try {
+        await handle.writeFile(botPhone);
+      } finally {
+        await handle.close();
+      }
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') return false;
+      throw error;
+    }
+  }
 
   /**
-   * Get current stats (for debugging)
+   * Marker that reserves replacing or removing one particular expired claim file
    */
-  getStats(): { trackedMessages: number; oldestTimestamp: number | null } {
-    let oldest: number | null = null;
-    for (const data of this.seenMessages.values()) {
-      if (oldest === null || data.timestamp < oldest) {
-        oldest = data.timestamp;
+  private takeoverFor(file: string, stat: Stats): string {
+    return `${file}.${stat.ino}-${Math.floor(stat.mtimeMs)}.takeover`;
+  }
+
+  private fileFor(messageId: string): string {
+    // Message IDs contain characters that aren't safe in file names
+    const name = createHash('sha1').update(messageId).digest('hex');
+    return path.join(this.config.directory, `${name}.claim`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.config.directory, { recursive: true }).then(() => undefined);
+      this.ready.catch(() => {
+        this.ready = undefined; // Retry on the next claim
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Remove claim files older than the TTL, at most once per cleanupInterval,
+   * along with old takeover markers and leftover temp files. Expired claims are
+   * only removed after winning their takeover marker, like a takeover.
+   * Runs in the background - claims don't wait for it.
+   */
+  private cleanupIfNeeded(ttl: number): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < this.config.cleanupInterval) {
+      return;
+    }
+    this.lastCleanup = now;
+
+    (async () => {
+      for (const name of await fs.readdir(this.config.directory)) {
+        const file = path.join(this.config.directory, name);
+        const stat = await fs.stat(file).catch(() => null);
+        if (!stat || now - stat.mtimeMs < ttl) continue;
+
+        if (name.endsWith('.claim')) {
+          if (await this.create(this.takeoverFor(file, stat), '')) {
+            await fs.unlink(file).catch(() => {});
+          }
+        } else if (name.endsWith('.takeover') || name.endsWith('.tmp')) {
+          await fs.unlink(file).catch(() => {});
+        }
       }
+    })().catch(error => {
+      console.error('[FileDedupStore] Cleanup failed:', error instanceof Error ? error.message : String(error));
+    });
+  }
+}
+
+export interface MessageDeduplicatorConfig {
+  store?: DedupStore; // default: a MemoryDedupStore
+  ttl?: number; // Deduplication window in milliseconds, default 10 seconds
+}
+
+export class MessageDeduplicator {
+  private store: DedupStore;
+  private readonly ttl: number;
+
+  constructor(config: MessageDeduplicatorConfig = {}) {
+    this.store = config.store || new MemoryDedupStore();
+    this.ttl = config.ttl ?? 10000; // 10 second window for deduplication
+  }
+
+  /**
+   * Check if this bot should emit an event for this message.
+   * If the store fails the message is emitted - a duplicate beats a lost message.
+   *
+   * @param messageId Unique message identifier (see messageKey)
+   * @param botPhone The bot phone number checking
+   * @param isGroupMessage Whether this is a group message
+   * @param isReprocessed Whether this is a re-processed message from consistency checker
+   * @param ttl How long the claim holds in milliseconds, default the deduplicator's TTL
+   * @returns true if this bot should emit, false if another bot already emitted
+   */
+  async shouldEmit(
+    messageId: string,
+    botPhone: string,
+    isGroupMessage: boolean,
+    isReprocessed: boolean = false,
+    ttl: number = this.ttl
+  ): Promise<boolean> {
+    // DMs always emit - only one bot receives them
+    if (!isGroupMessage) {
+      return true;
     }
-    return {
-      trackedMessages: this.seenMessages.size,
-      oldestTimestamp: oldest
-    };
+
+    // Re-processed messages from consistency checker always emit
+    // These are intentional re-triggers for bots that missed the original
+    if (isReprocessed) {
+      return true;
+    }
+
+    try {
+      return await this.store.claim(messageId, botPhone, ttl);
+    } catch (error) {
+      console.error(`[MessageDeduplicator] Store error for ${messageId.substring(0, 50)}, emitting anyway:`, error instanceof Error ? error.message : String(error));
+      return true;
+    }
+  }
+
+  /**
+   * Get info about who first received a message (for debugging)
+   */
+  getFirstReceiver(messageId: string): Promise<string | undefined> {
+    return this.store.getFirstReceiver(messageId);
+  }
+
+  /**
+   * Get current stats (for debugging) - only in-memory stores track them
+   */
+  getStats(): { trackedMessages: number; oldestTimestamp: number | null } | undefined {
+    return this.store instanceof MemoryDedupStore ? this.store.getStats() : undefined;
   }
 }
 
-// Singleton instance shared across all SignalAfferent instances
+// Default instance shared by SignalAfferents that aren't given their own deduplicator
 export const messageDeduplicator = new MessageDeduplicator();
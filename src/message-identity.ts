@@ -0,0 +1,175 @@
+/**
+ * MessageIdentity - Stable keys for senders, messages and DM streams
+ *
+ * Senders are keyed by ACI/UUID first and phone number only as a fallback,
+ * so a user gets the same key whether or not their number is visible and
+ * users who hide their number never share 'unknown'. Every component that
+ * builds message IDs (afferent dedup, consistency tracking, receptor facet
+ * IDs) goes through these functions.
+ *
+ * Facets created before UUID keying used the envelope source (usually the
+ * phone number). Lookups fall back to those legacy IDs so older messages and
+ * streams keep working.
+ *
+ * Bots are configured by the phone number their account is registered with,
+ * but other clients may refer to them by UUID or username; findBotPhone maps
+ * any of those back to the configured number.
+ */
+
+import type { ReadonlyVEILState } from 'connectome-ts';
+
+export interface SenderIdentity {
+  sourceUuid?: string; // ACI
+  sourceNumber?: string; // phone number, if the sender shares it
+  username?: string; // Signal username (e.g. 'alice.42'), if known
+  source?: string; // envelope source - a phone number or a UUID
+}
+
+/**
+ * Known identities of the bot accounts, keyed by registered phone number
+ */
+export interface BotIdentities {
+  botNames: Map<string, string>; // phone -> name
+  botUuids: Map<string, string>; // phone -> ACI
+  botUsernames?: Map<string, string>; // phone -> Signal username
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string | undefined): boolean {
+  return !!value && UUID_PATTERN.test(value);
+}
+
+export function isPhoneNumber(value: string | undefined): boolean {
+  return !!value && /^\+\d{6,}$/.test(value);
+}
+
+/**
+ * Signal usernames are a nickname plus a numeric discriminator, e.g. 'alice.42',
+ * optionally written with signal-cli's 'u:' prefix
+ */
+export function isUsername(value: string | undefined): boolean {
+  return !!value && /^(u:)?[a-z_][a-z0-9_]{2,31}\.\d{2,9}$/i.test(value);
+}
+
+function normaliseUsername(value: string): string {
+  return value.replace(/^u:/, '').toLowerCase();
+}
+
+/**
+ * Stable sender key - UUID, then phone number, then username, then the raw envelope source
+ */
+export function senderKey(sender: SenderIdentity): string {
+  return sender.sourceUuid || sender.sourceNumber || sender.username || sender.source || 'unknown';
+}
+
+/**
+ * Every key a sender may have been recorded under, preferred key first
+ */
+export function senderAliases(sender: SenderIdentity): string[] {
+  const aliases = [sender.sourceUuid, sender.sourceNumber, sender.username, sender.source].filter((a): a is string => !!a);
+  return Array.from(new Set(aliases));
+}
+
+/**
+ * Recipient string for the REST API: phone numbers and UUIDs are sent as-is,
+ * usernames need signal-cli's 'u:' prefix
+ */
+export function recipientAddress(identifier: string): string {
+  return isUsername(identifier) && !identifier.startsWith('u:') ? `u:${identifier}` : identifier;
+}
+
+/**
+ * Registered phone number of the bot with the given phone number, UUID or username
+ */
+export function findBotPhone(bots: BotIdentities, identifier: string | undefined): string | undefined {
+  if (!identifier) return undefined;
+  if (bots.botNames.has(identifier) || bots.botUuids.has(identifier)) return identifier;
+
+  for (const [phone, uuid] of bots.botUuids) {
+    if (uuid.toLowerCase() === identifier.toLowerCase()) return phone;
+  }
+
+  if (bots.botUsernames && isUsername(identifier)) {
+    const username = normaliseUsername(identifier);
+    for (const [phone, botUsername] of bots.botUsernames) {
+      if (normaliseUsername(botUsername) === username) return phone;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Registered phone number of the bot that sent a message, if a bot sent it
+ */
+export function findBotSender(bots: BotIdentities, sender: SenderIdentity): string | undefined {
+  for (const alias of senderAliases(sender)) {
+    const phone = findBotPhone(bots, alias);
+    if (phone) return phone;
+  }
+  return undefined;
+}
+
+/**
+ * Message key used for deduplication and consistency tracking
+ */
+export function messageKey(sender: SenderIdentity, timestamp: number): string {
+  return `${senderKey(sender)}-${timestamp}`;
+}
+
+export function messageFacetId(sender: SenderIdentity, timestamp: number): string {
+  return `signal-msg-${messageKey(sender, timestamp)}`;
+}
+
+/**
+ * Find a message facet by author and sent timestamp, trying the UUID key
+ * first and legacy phone/source keys after it
+ */
+export function findMessageFacet(state: ReadonlyVEILState, authors: Array<string | undefined>, timestamp: number): any {
+  for (const author of authors) {
+    if (!author) continue;
+    const facet = state.facets.get(`signal-msg-${author}-${timestamp}`);
+    if (facet) return facet;
+  }
+  return undefined;
+}
+
+export function profileFacetId(sender: SenderIdentity): string {
+  return `signal-profile-${senderKey(sender)}`;
+}
+
+/**
+ * Find the user-profile facet for a sender by any of their identifiers -
+ * UUID, phone number or username - so one person has a single profile
+ */
+export function findProfileFacet(state: ReadonlyVEILState, sender: SenderIdentity): any {
+  const aliases = senderAliases(sender);
+  if (aliases.length === 0) return undefined;
+
+  const direct = state.facets.get(profileFacetId(sender));
+  if (direct?.type === 'user-profile') return direct;
+
+  return Array.from(state.facets.values()).find((f: any) => {
+    if (f.type !== 'user-profile') return false;
+    const known = [f.attributes?.uuid, f.attributes?.phoneNumber, f.attributes?.username, ...(f.attributes?.aliases || [])];
+    return aliases.some(alias => known.includes(alias));
+  });
+}
+
+/**
+ * Conversation key and stream ID for a bot's DM with a sender. Reuses a
+ * stream created under a legacy (phone-keyed) ID so existing conversation
+ * history isn't split; new streams are keyed by UUID.
+ */
+export function resolveDmStream(state: ReadonlyVEILState, botPhone: string, sender: SenderIdentity): { conversationKey: string; streamId: string } {
+  for (const alias of senderAliases(sender)) {
+    const streamId = `signal-stream-${botPhone}-${alias}`;
+    if (state.facets.get(streamId)) {
+      return { conversationKey: alias, streamId };
+    }
+  }
+
+  const conversationKey = senderKey(sender);
+  return { conversationKey, streamId: `signal-stream-${botPhone}-${conversationKey}` };
+}
@@ -0,0 +1,103 @@
+/**
+ * ProfileSync - Pulls contacts and profiles for the bots
+ *
+ * Fetches each bot's contact list and reports only the profiles that
+ * changed since the last sync, so a periodic sync doesn't rewrite every
+ * user-profile facet. One instance can be shared by all bots: a user known
+ * to several bots is reported once per change. Avatars are only downloaded
+ * (and hashed) when a profile says it was updated.
+ */
+
+import { fetchProfiles, fetchAvatarHash, profileSignature } from './signal-profiles.js';
+import type { SignalProfileSnapshot } from './signal-profiles.js';
+import type { SignalRestClient } from './signal-rest-client.js';
+import { senderKey } from './message-identity.js';
+
+export interface ProfileSyncConfig {
+  client: SignalRestClient;
+  fetchAvatars?: boolean; // Hash profile avatars so avatar changes are picked up, default true
+}
+
+interface KnownAvatar {
+  profileUpdatedAt?: number;
+  hash?: string;
+}
+
+export class ProfileSync {
+  private config: Required<ProfileSyncConfig>;
+  private signatures = new Map<string, string>(); // profile key -> signature of last reported snapshot
+  private avatars = new Map<string, KnownAvatar>(); // UUID -> avatar hash as of a profile update
+  private inflight = new Map<string, Promise<SignalProfileSnapshot[]>>(); // botPhone -> pending sync
+
+  constructor(config: ProfileSyncConfig) {
+    this.config = {
+      client: config.client,
+      fetchAvatars: config.fetchAvatars ?? true
+    };
+  }
+
+  /**
+   * Fetch a bot's contacts and return the profiles that changed since they
+   * were last reported (every profile on the first sync). Concurrent syncs
+   * for the same bot share one request. Throws if the contact list can't be fetched.
+   */
+  sync(botPhone: string): Promise<SignalProfileSnapshot[]> {
+    const pending = this.inflight.get(botPhone);
+    if (pending) return pending;
+
+    const request = this.fetchChanged(botPhone).finally(() => {
+      this.inflight.delete(botPhone);
+    });
+
+    this.inflight.set(botPhone, request);
+    return request;
+  }
+
+  /**
+   * Forget what was reported, so the next sync reports every profile again
+   */
+  reset(): void {
+    this.signatures.clear();
+  }
+
+  private async fetchChanged(botPhone: string): Promise<SignalProfileSnapshot[]> {
+    const profiles = await fetchProfiles(this.config.client, botPhone);
+    const changed: SignalProfileSnapshot[] = [];
+
+    for (const profile of profiles) {
+      if (this.config.fetchAvatars && profile.hasAvatar && profile.uuid) {
+        profile.avatarHash = await this.avatarHash(botPhone, profile);
+      }
+
+      const key = senderKey({ sourceUuid: profile.uuid, sourceNumber: profile.number, username: profile.username });
+      const signature = profileSignature(profile);
+      if (this.signatures.get(key) === signature) continue;
+
+      this.signatures.set(key, signature);
+      changed.push(profile);
+    }
+
+    console.log(`[ProfileSync] Fetched ${profiles.length} contact(s) for ${botPhone}, ${changed.length} changed`);
+    return changed;
+  }
+
+  /**
+   * Avatar hash for a profile, downloading the avatar only if the profile changed since it was last hashed
+   */
+  private async avatarHash(botPhone: string, profile: SignalProfileSnapshot): Promise<string | undefined> {
+    const uuid = profile.uuid!;
+    const known = this.avatars.get(uuid);
+    if (known && known.profileUpdatedAt === profile.profileUpdatedAt) {
+      return known.hash;
+    }
+
+    try {
+      const hash = await fetchAvatarHash(this.config.client, botPhone, uuid);
+      this.avatars.set(uuid, { profileUpdatedAt: profile.profileUpdatedAt, hash });
+      return hash;
+    } catch (error) {
+      console.error(`[ProfileSync] Error fetching avatar for ${uuid}:`, error instanceof Error ? error.message : String(error));
+      return known?.hash;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * ReconnectPolicy - Decides when (and whether) SignalAfferent reconnects
+ *
+ * The default policy backs off exponentially with jitter. Once reconnecting
+ * has failed for maxReconnectTime it either gives up or, as a circuit
+ * breaker, opens the circuit and keeps sending slow half-open probes until
+ * Signal CLI comes back.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ReconnectDecision {
+  // Milliseconds until the next connection attempt
+  delay: number;
+  // 'closed' while backing off normally, 'open' once only slow probes are sent
+  circuit: CircuitState;
+}
+
+export interface ReconnectPolicy {
+  /**
+   * Decide on the next reconnection attempt
+   *
+   * @param attempt Failed attempts since the connection was lost (0 for the first reconnect)
+   * @param elapsed Milliseconds since the connection was lost
+   * @returns The next attempt, or null to give up
+   */
+  next(attempt: number, elapsed: number): ReconnectDecision | null;
+}
+
+export interface BackoffReconnectPolicyConfig {
+  initialDelay?: number; // milliseconds, default 1 second
+  maxDelay?: number; // milliseconds, default 30 seconds
+  multiplier?: number; // default 2
+  jitter?: number; // Fraction of each delay that is randomised (0-1), default 0.2
+  maxReconnectTime?: number; // Backoff period before giving up or opening the circuit, default 5 minutes
+  onExhausted?: 'give-up' | 'circuit-breaker'; // default 'circuit-breaker'
+  probeInterval?: number; // Delay between half-open probes while the circuit is open, default 60 seconds
+}
+
+/**
+ * Exponential backoff with jitter and an optional circuit breaker
+ */
+export class BackoffReconnectPolicy implements ReconnectPolicy {
+  private config: Required<BackoffReconnectPolicyConfig>;
+
+  constructor(config: BackoffReconnectPolicyConfig = {}) {
+    this.config = {
+      initialDelay: config.initialDelay ?? 1000,
+      maxDelay: config.maxDelay ?? 30000,
+      multiplier: config.multiplier ?? 2,
+      jitter: config.jitter ?? 0.2,
+      maxReconnectTime: config.maxReconnectTime ?? 5 * 60 * 1000,
+      onExhausted: config.onExhausted ?? 'circuit-breaker',
+      probeInterval: config.probeInterval ?? 60000
+    };
+  }
+
+  next(attempt: number, elapsed: number): ReconnectDecision | null {
+    if (elapsed >= this.config.maxReconnectTime) {
+      if (this.config.onExhausted === 'give-up') {
+        return null;
+      }
+      return { delay: this.withJitter(this.config.probeInterval), circuit: 'open' };
+    }
+
+    const delay = Math.min(
+      this.config.initialDelay * Math.pow(this.config.multiplier, attempt),
+      this.config.maxDelay
+    );
+    return { delay: this.withJitter(delay), circuit: 'closed' };
+  }
+
+  private withJitter(delay: number): number {
+    // Spread delays evenly within +/- jitter/2 so bots sharing a Signal CLI don't reconnect in lockstep
+    const spread = delay * this.config.jitter;
+    return Math.max(0, Math.round(delay - spread / 2 + Math.random() * spread));
+  }
+}
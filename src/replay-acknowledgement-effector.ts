@@ -0,0 +1,33 @@
+/**
+ * ReplayAcknowledgementEffector - Tells the ReplayQueue which bots were activated
+ *
+ * Acknowledges queued replays when the target bot's agent-activation facet
+ * for the message is added to VEIL, or is already there (e.g. when the
+ * receptor dropped a replay as a duplicate of an existing activation).
+ */
+
+import { BaseEffector } from 'connectome-ts';
+import type { EffectorResult, FacetDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { ReplayQueue } from './replay-queue.js';
+
+export class ReplayAcknowledgementEffector extends BaseEffector {
+  private queue: ReplayQueue;
+
+  constructor(queue: ReplayQueue) {
+    super();
+    this.queue = queue;
+  }
+
+  async process(changes: FacetDelta[], state: ReadonlyVEILState): Promise<EffectorResult> {
+    for (const change of changes) {
+      if (change.type === 'added' && change.facet.type === 'agent-activation') {
+        this.queue.acknowledge(change.facet.id);
+      }
+    }
+
+    // Activations added before the replay was queued, or that the replay found already present
+    this.queue.observe(state);
+
+    return { events: [] };
+  }
+}
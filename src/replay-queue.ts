@@ -0,0 +1,301 @@
+/**
+ * ReplayQueue - Persistent, acknowledged replays of missed group messages
+ *
+ * When a mentioned or quoted bot missed a message, MessageConsistencyReceptor
+ * queues the message for that bot instead of replaying it once. The queue
+ * replays it (typically reconnect + replay via createReconnectHandler) and
+ * retries with exponential backoff until the bot's agent-activation for the
+ * message shows up in VEIL, which ReplayAcknowledgementEffector reports.
+ * Activations already in VEIL count too: the original message usually
+ * activated every mentioned bot, even one that missed it, in which case
+ * nothing is replayed at all.
+ * Items older than maxAge are dropped and reported as signal:replay-expired.
+ *
+ * With a `file`, pending items survive restarts: call start() once the
+ * afferents are up to load them and resume retrying.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ReadonlyVEILState, SpaceEvent } from 'connectome-ts';
+import { messageKey } from './message-identity.js';
+import type { SignalMessagePayload, SignalReplayExpiredPayload } from './signal-types.js';
+
+export interface ReplayQueueConfig {
+  // Replay a message for a bot, e.g. createReconnectHandler(afferents)
+  replay: (botPhone: string, payload: SignalMessagePayload) => void;
+  // JSON file pending replays are kept in - in memory only if not provided
+  file?: string;
+  // Delay before the first retry in milliseconds, doubled after each attempt, default 10 seconds
+  retryDelay?: number;
+  // Longest delay between retries in milliseconds, default 5 minutes
+  maxRetryDelay?: number;
+  // Drop items this long after they were queued in milliseconds, default 1 hour
+  maxAge?: number;
+  // Emit events into the space (e.g. event => space.emit(event)) - expiries are only logged without it
+  emitEvent?: (event: SpaceEvent) => void;
+}
+
+export interface ReplayItem {
+  botPhone: string;
+  messageId: string;
+  activationId: string; // agent-activation facet that acknowledges the replay
+  payload: SignalMessagePayload; // signal:message payload to replay
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Activation facet ID SignalMessageReceptor creates for a bot and message
+ */
+export function replayActivationId(botPhone: string, payload: { timestamp: number }): string {
+  return `signal-activation-${botPhone}-${payload.timestamp}`;
+}
+
+export class ReplayQueue {
+  private config: Required<Omit<ReplayQueueConfig, 'file' | 'emitEvent'>> & Pick<ReplayQueueConfig, 'file' | 'emitEvent'>;
+  private items = new Map<string, ReplayItem>(); // activationId -> item
+  private timer?: NodeJS.Timeout;
+  private ready?: Promise<void>;
+  private stopped = false;
+  private state?: ReadonlyVEILState; // latest VEIL state seen by observe()
+  private activations = new Map<string, number>(); // activationId -> when it was seen (activations are ephemeral)
+  private lastCleanup = Date.now();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(config: ReplayQueueConfig) {
+    this.config = {
+      replay: config.replay,
+      file: config.file,
+      retryDelay: config.retryDelay ?? 10000,
+      maxRetryDelay: config.maxRetryDelay ?? 5 * 60 * 1000,
+      maxAge: config.maxAge ?? 60 * 60 * 1000,
+      emitEvent: config.emitEvent
+    };
+  }
+
+  /**
+   * Load persisted items and resume retrying them
+   */
+  start(): Promise<void> {
+    this.stopped = false;
+    this.schedule();
+    return this.init();
+  }
+
+  /**
+   * Stop retrying. Pending items stay in the file for the next start().
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Queue a message for a bot and replay it right away. Nothing is queued if
+   * the bot was already activated for the message, or if it is already queued.
+   */
+  async enqueue(botPhone: string, payload: SignalMessagePayload, state?: ReadonlyVEILState): Promise<void> {
+    await this.init();
+    if (state) this.observe(state);
+
+    const activationId = replayActivationId(botPhone, payload);
+    if (this.items.has(activationId)) return;
+
+    const messageId = messageKey(payload, payload.timestamp);
+    if (this.isActivated(activationId)) {
+      console.log(`[ReplayQueue] ${botPhone} was already activated for ${messageId.substring(0, 40)}..., not replaying`);
+      return;
+    }
+
+    const item: ReplayItem = {
+      botPhone,
+      messageId,
+      activationId,
+      payload,
+      queuedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    };
+
+    this.items.set(activationId, item);
+    this.attempt(item);
+    this.save();
+    this.schedule();
+  }
+
+  /**
+   * The bot was activated for the message - stop retrying it
+   */
+  acknowledge(activationId: string): boolean {
+    this.cleanupIfNeeded();
+    this.activations.set(activationId, Date.now());
+
+    const item = this.items.get(activationId);
+    if (!item) return false;
+
+    this.items.delete(activationId);
+    console.log(`[ReplayQueue] ${item.botPhone} activated for ${item.messageId.substring(0, 40)}... after ${item.attempts} replay(s)`);
+    this.save();
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Acknowledge every queued item whose activation is present in VEIL, and
+   * keep the state for checks before later attempts
+   */
+  observe(state: ReadonlyVEILState): void {
+    this.state = state;
+
+    for (const activationId of Array.from(this.items.keys())) {
+      if (state.facets.has(activationId)) {
+        this.acknowledge(activationId);
+      }
+    }
+  }
+
+  /**
+   * Items still waiting for their activation
+   */
+  pending(): ReplayItem[] {
+    return Array.from(this.items.values());
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        if (this.config.file) {
+          try {
+            const items: ReplayItem[] = JSON.parse(await fs.readFile(this.config.file, 'utf8'));
+            for (const item of items) {
+              this.items.set(item.activationId, item);
+            }
+            console.log(`[ReplayQueue] Loaded ${items.length} pending replay(s) from ${this.config.file}`);
+          } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+              console.error(`[ReplayQueue] Could not load ${this.config.file}, starting empty:`, error instanceof Error ? error.message : String(error));
+            }
+          }
+        }
+        this.schedule();
+      })();
+    }
+    return this.ready;
+  }
+
+  private isActivated(activationId: string): boolean {
+    return this.activations.has(activationId) || !!this.state?.facets.has(activationId);
+  }
+
+  private attempt(item: ReplayItem): void {
+    item.attempts++;
+    const delay = Math.min(this.config.retryDelay * Math.pow(2, item.attempts - 1), this.config.maxRetryDelay);
+    item.nextAttemptAt = Date.now() + delay;
+
+    console.log(`[ReplayQueue] Replaying ${item.messageId.substring(0, 40)}... for ${item.botPhone} (attempt ${item.attempts}, next check in ${delay}ms)`);
+
+    try {
+      this.config.replay(item.botPhone, item.payload);
+    } catch (error) {
+      console.error(`[ReplayQueue] Replay for ${item.botPhone} failed:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Retry or expire every item that is due, then wait for the next one
+   */
+  private run(): void {
+    this.timer = undefined;
+    const now = Date.now();
+
+    for (const item of Array.from(this.items.values())) {
+      if (this.isActivated(item.activationId)) {
+        this.acknowledge(item.activationId);
+      } else if (now - item.queuedAt >= this.config.maxAge) {
+        this.expire(item);
+      } else if (item.nextAttemptAt <= now) {
+        this.attempt(item);
+      }
+    }
+
+    this.save();
+    this.schedule();
+  }
+
+  private expire(item: ReplayItem): void {
+    this.items.delete(item.activationId);
+    console.warn(`[ReplayQueue] Giving up on ${item.messageId.substring(0, 40)}... for ${item.botPhone} after ${item.attempts} replay(s)`);
+
+    this.config.emitEvent?.({
+      topic: 'signal:replay-expired',
+      source: { elementId: 'replay-queue', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        botPhone: item.botPhone,
+        messageId: item.messageId,
+        activationId: item.activationId,
+        groupId: item.payload.groupId,
+        messageTimestamp: item.payload.timestamp,
+        queuedAt: item.queuedAt,
+        attempts: item.attempts,
+        timestamp: Date.now()
+      } satisfies SignalReplayExpiredPayload
+    });
+  }
+
+  /**
+   * Forget activations once no replay for them could still be queued
+   */
+  private cleanupIfNeeded(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < this.config.maxAge / 2) {
+      return;
+    }
+    this.lastCleanup = now;
+
+    for (const [activationId, seenAt] of this.activations) {
+      if (now - seenAt >= this.config.maxAge) {
+        this.activations.delete(activationId);
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.stopped || this.items.size === 0) return;
+
+    let next = Infinity;
+    for (const item of this.items.values()) {
+      next = Math.min(next, item.nextAttemptAt, item.queuedAt + this.config.maxAge);
+    }
+
+    this.timer = setTimeout(() => this.run(), Math.max(0, next - Date.now()));
+  }
+
+  /**
+   * Write pending items to the file - writes are serialized, and go through
+   * a temp file so a crash never leaves a partial file behind
+   */
+  private save(): void {
+    const file = this.config.file;
+    if (!file) return;
+
+    const data = JSON.stringify(this.pending());
+    this.saving = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tempPath = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, file);
+    }).catch(error => {
+      console.error(`[ReplayQueue] Could not save ${file}:`, error instanceof Error ? error.message : String(error));
+    });
+  }
+}
@@ -1,5 +1,6 @@
 /**
  * SignalAfferent - Manages WebSocket connection to Signal CLI REST API
+ * (or HTTP polling for REST API modes without WebSocket receive)
  *
  * Runs asynchronously outside the frame boundary, bridging external Signal
  * events to Connectome's event system.
@@ -7,14 +8,97 @@
 
 import WebSocket from 'ws';
 import { BaseAfferent } from 'connectome-ts';
-import type { AfferentContext } from 'connectome-ts';
 import { messageDeduplicator } from './message-deduplicator.js';
+import type { MessageDeduplicator } from './message-deduplicator.js';
+import type { GroupIngestionCoordinator } from './group-ingestion.js';
+import { BackoffReconnectPolicy } from './reconnect-policy.js';
+import type { ReconnectPolicy, CircuitState } from './reconnect-policy.js';
+import type { AttachmentStore } from './attachment-store.js';
+import type { AttachmentProcessorRegistry, DerivedContent } from './attachment-processors.js';
+import type { ImagePipeline } from './image-pipeline.js';
+import { groupSignature } from './signal-groups.js';
+import { GroupDirectory } from './group-directory.js';
+import { SignalRestClient } from './signal-rest-client.js';
+import { ProfileSync } from './profile-sync.js';
+import { validateReceivedMessage } from './signal-types.js';
+import { senderKey, messageKey, isPhoneNumber } from './message-identity.js';
+import { IngestQueue } from './ingest-queue.js';
+import type { IngestSlot } from './ingest-queue.js';
+import type {
+  SignalMessagePayload,
+  SignalEditPayload,
+  SignalDeletePayload,
+  SignalReactionPayload,
+  SignalReceiptPayload,
+  SignalTypingPayload,
+  SignalGroupUpdatePayload,
+  SignalProfileUpdatePayload,
+  SignalGroupFailoverPayload,
+  SignalConnectionStatusPayload,
+  SignalCatchUpPayload,
+  SignalDataMessage,
+  SignalReceiptMessage,
+  SignalTypingMessage
+} from './signal-types.js';
 
 export interface SignalAfferentConfig {
   botPhone: string;
   wsUrl: string;
-  httpUrl?: string; // HTTP base URL for downloading attachments
-  maxReconnectTime?: number; // milliseconds, default 5 minutes
+  httpUrl?: string; // HTTP base URL for downloading attachments (and polling)
+  restClient?: SignalRestClient; // Shared REST client - one is created from httpUrl/wsUrl if not provided
+  attachmentStore?: AttachmentStore; // Where downloaded attachments are kept; without one they are inlined as base64
+  attachmentProcessors?: AttachmentProcessorRegistry; // Derive text/transcripts/metadata from non-image attachments
+  imagePipeline?: ImagePipeline; // Resize, re-encode and strip metadata from images before storing them
+  maxReconnectTime?: number; // milliseconds before the default policy opens the circuit, default 5 minutes
+  reconnectPolicy?: ReconnectPolicy; // default: BackoffReconnectPolicy with maxReconnectTime
+  // 'websocket' requires signal-cli-rest-api in json-rpc mode; 'poll' works with normal/native modes
+  receiveMode?: 'websocket' | 'poll'; // default 'websocket'
+  pollInterval?: number; // Delay between polls in milliseconds, default 1 second
+  pollTimeout?: number; // Seconds signal-cli waits for new messages per poll, default 10
+  maxPollBackoff?: number; // Maximum delay between polls after errors in milliseconds, default 30 seconds
+  pingInterval?: number; // WebSocket ping interval in milliseconds, default 30 seconds
+  staleTimeout?: number; // Reconnect when no pong or message arrives for this long, default 90 seconds
+  emitReceipts?: boolean; // Emit signal:receipt events (default: false)
+  receiptCoalesceMs?: number; // Window for batching receipts into one event, default 2 seconds
+  emitTyping?: boolean; // Emit signal:typing events (default: false)
+  typingExpiryMs?: number; // Treat a sender as stopped after this long without STARTED, default 15 seconds
+  maxPausedMessages?: number; // Messages buffered while paused before the oldest are dropped, default 1000
+  groupDirectory?: GroupDirectory; // Shared group metadata cache - one is created per afferent if not provided
+  groupRefreshInterval?: number; // Re-fetch group metadata this often in milliseconds (0 disables), default 10 minutes
+  profileSync?: ProfileSync; // Shared contact/profile sync - one is created per afferent if not provided
+  profileRefreshInterval?: number; // Sync contacts and profiles this often in milliseconds (0 disables), default 30 minutes
+  deduplicator?: MessageDeduplicator; // Group deduplication shared with the other bots - default: the in-process messageDeduplicator
+  groupIngestion?: GroupIngestionCoordinator; // Primary/standby receivers per group, shared with the other bots - default: first receiver emits
+  ingestTimeout?: number; // Longest one slow envelope (e.g. attachment downloads) holds up later ones in its conversation, default 60 seconds
+  catchUpQuietPeriod?: number; // Catch-up after connecting ends once no envelope arrives for this long, default 2 seconds
+}
+
+/**
+ * Commands accepted by SignalAfferent.onCommand
+ * - reconnect: drop the current connection and connect again immediately
+ * - pause: keep receiving but buffer messages instead of emitting them
+ * - resume: emit buffered messages in arrival order and continue normally
+ * - replay: re-emit a signal:message payload (flagged __reprocessed) for this bot
+ */
+export type SignalAfferentCommand =
+  | { type: 'reconnect' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'replay'; payload: SignalMessagePayload };
+
+/**
+ * Connection state snapshot exposed through getStatus() and signal:connection-status events
+ */
+export interface SignalAfferentStatus {
+  botPhone: string;
+  receiveMode: 'websocket' | 'poll';
+  connected: boolean;
+  connectedAt?: number;
+  lastMessageAt?: number;
+  lastPongAt?: number;
+  retryCount: number;
+  circuit: CircuitState;
+  paused: boolean;
 }
 
 interface WebSocketState {
@@ -22,6 +106,31 @@ interface WebSocketState {
   connected: boolean;
   retryCount: number;
   firstReconnectAttempt?: number;
+  circuit: CircuitState;
+  connectedAt?: number;
+  lastMessageAt?: number;
+  lastPongAt?: number;
+  lastActivityAt?: number; // Last pong or message - used by the stale-connection watchdog
+}
+
+interface PendingReceipt {
+  source: string;
+  sourceUuid: string;
+  type: 'delivery' | 'read' | 'viewed';
+  when: number;
+  timestamps: Set<number>;
+}
+
+interface TypingState {
+  startedAt: number;
+  expiryTimer: NodeJS.Timeout;
+}
+
+interface CatchUpState {
+  startedAt: number;
+  messageCount: number;
+  oldestTimestamp?: number;
+  quietTimer?: NodeJS.Timeout;
 }
 
 /**
@@ -31,18 +140,86 @@ interface WebSocketState {
 export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
   private state: WebSocketState = {
     connected: false,
-    retryCount: 0
+    retryCount: 0,
+    circuit: 'closed'
   };
 
-  private maxReconnectTime: number = 5 * 60 * 1000; // 5 minutes
+  private reconnectPolicy: ReconnectPolicy = new BackoffReconnectPolicy();
+  private client!: SignalRestClient;
+  private groupDirectory!: GroupDirectory;
+
+  // Receipts are batched so a burst of confirmations becomes a single event
+  private pendingReceipts = new Map<string, PendingReceipt>();
+  private receiptFlushTimer?: NodeJS.Timeout;
+
+  // Who is currently typing, keyed by streamId and sender
+  private typingStates = new Map<string, TypingState>();
+
+  // Poll receive mode
+  private polling = false;
+  private pollTimer?: NodeJS.Timeout;
+  private pollGeneration = 0; // Bumped by startPolling so a poll that was in flight doesn't start a second loop
+
+  // Ping/pong watchdog for half-open WebSocket connections
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  private reconnectTimer?: NodeJS.Timeout;
+
+  // Periodic group metadata refresh - last emitted snapshot signature per group
+  private groupRefreshTimer?: NodeJS.Timeout;
+  private groupSignatures = new Map<string, string>();
+
+  // Periodic contact/profile sync
+  private profileSync!: ProfileSync;
+  private profileRefreshTimer?: NodeJS.Timeout;
+
+  // Raw messages received while paused
+  private paused = false;
+  private pausedMessages: string[] = [];
+
+  private deduplicator: MessageDeduplicator = messageDeduplicator;
+
+  // Per-conversation ordering of emits while envelopes are handled concurrently
+  private ingestQueue!: IngestQueue;
+
+  // Backlog flushed by signal-cli after connecting, until the connection goes quiet
+  private catchUp?: CatchUpState;
 
   async onInitialize(): Promise<void> {
-    this.maxReconnectTime = this.context.config.maxReconnectTime || this.maxReconnectTime;
+    const { reconnectPolicy, maxReconnectTime } = this.context.config;
+    this.reconnectPolicy = reconnectPolicy || new BackoffReconnectPolicy({ maxReconnectTime });
+    this.client = this.context.config.restClient || new SignalRestClient({ baseUrl: this.getHttpUrl() });
+    this.groupDirectory = this.context.config.groupDirectory || new GroupDirectory({ client: this.client });
+    this.profileSync = this.context.config.profileSync || new ProfileSync({ client: this.client });
+    this.deduplicator = this.context.config.deduplicator || messageDeduplicator;
+    this.ingestQueue = new IngestQueue(this.context.config.ingestTimeout ?? 60000);
     console.log(`[SignalAfferent ${this.context.config.botPhone}] Initialized`);
   }
 
-  async onCommand(_command: any): Promise<void> {
-    // No commands supported yet
+  async onCommand(command: SignalAfferentCommand): Promise<void> {
+    const { botPhone } = this.context.config;
+    console.log(`[SignalAfferent ${botPhone}] Command: ${command.type}`);
+
+    switch (command.type) {
+      case 'reconnect':
+        await this.reconnect();
+        break;
+
+      case 'pause':
+        this.paused = true;
+        break;
+
+      case 'resume':
+        await this.resume();
+        break;
+
+      case 'replay':
+        this.replay(command.payload);
+        break;
+
+      default:
+        console.warn(`[SignalAfferent ${botPhone}] Unknown command:`, (command as any).type);
+    }
   }
 
   async onDestroyAfferent(): Promise<void> {
@@ -50,15 +227,77 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
   }
 
   async onStart(): Promise<void> {
-    await this.connect();
+    if (this.context.config.receiveMode === 'poll') {
+      this.startPolling();
+    } else {
+      await this.connect();
+    }
+
+    // Either way the group directory is prefetched, so the first group message doesn't wait on /v1/groups
+    const groupRefreshInterval = this.context.config.groupRefreshInterval ?? 10 * 60 * 1000;
+    if (groupRefreshInterval > 0) {
+      this.refreshGroups();
+      this.groupRefreshTimer = setInterval(() => this.refreshGroups(), groupRefreshInterval);
+    } else {
+      this.groupDirectory.prefetch(this.context.config.botPhone);
+    }
+
+    const profileRefreshInterval = this.context.config.profileRefreshInterval ?? 30 * 60 * 1000;
+    if (profileRefreshInterval > 0) {
+      this.syncProfiles();
+      this.profileRefreshTimer = setInterval(() => this.syncProfiles(), profileRefreshInterval);
+    }
+  }
+
+  /**
+   * Current connection state
+   */
+  getStatus(): SignalAfferentStatus {
+    return {
+      botPhone: this.context.config.botPhone,
+      receiveMode: this.context.config.receiveMode || 'websocket',
+      connected: this.state.connected,
+      connectedAt: this.state.connectedAt,
+      lastMessageAt: this.state.lastMessageAt,
+      lastPongAt: this.state.lastPongAt,
+      retryCount: this.state.retryCount,
+      circuit: this.state.circuit,
+      paused: this.paused
+    };
   }
 
   async onStop(): Promise<void> {
-    if (this.state.ws) {
-      this.state.ws.close();
-      this.state.ws = undefined;
+    this.stopHeartbeat();
+    this.closeSocket();
+    this.polling = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
     }
     this.state.connected = false;
+
+    if (this.receiptFlushTimer) {
+      clearTimeout(this.receiptFlushTimer);
+      this.receiptFlushTimer = undefined;
+    }
+    this.pendingReceipts.clear();
+    for (const typing of this.typingStates.values()) {
+      clearTimeout(typing.expiryTimer);
+    }
+    this.typingStates.clear();
+
+    if (this.groupRefreshTimer) {
+      clearInterval(this.groupRefreshTimer);
+      this.groupRefreshTimer = undefined;
+    }
+    if (this.profileRefreshTimer) {
+      clearInterval(this.profileRefreshTimer);
+      this.profileRefreshTimer = undefined;
+    }
+
+    this.ingestQueue.clear();
+    clearTimeout(this.catchUp?.quietTimer);
+    this.catchUp = undefined;
     console.log(`[SignalAfferent ${this.context.config.botPhone}] Stopped`);
   }
 
@@ -68,18 +307,36 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
 
     console.log(`[SignalAfferent ${botPhone}] Connecting to ${url}`);
 
-    const ws = new WebSocket(url);
+    // Same auth headers as REST requests, for APIs behind an auth proxy
+    const ws = new WebSocket(url, { headers: this.client.getHeaders() });
     this.state.ws = ws;
 
     ws.on('open', () => {
       console.log(`[SignalAfferent ${botPhone}] WebSocket connected`);
+
+      // Came back after failed reconnection attempts - let the space know it recovered
+      if (this.state.firstReconnectAttempt !== undefined) {
+        this.emitRecovered();
+      }
+
       this.state.connected = true;
       this.state.retryCount = 0;
       this.state.firstReconnectAttempt = undefined;
+      this.state.circuit = 'closed';
+      this.state.connectedAt = Date.now();
+      this.state.lastActivityAt = Date.now();
+      this.startHeartbeat(ws);
+      this.emitStatus('connected');
+      this.beginCatchUp();
     });
 
     ws.on('message', async (data: WebSocket.Data) => {
-      await this.handleMessage(data.toString());
+      this.state.lastMessageAt = this.state.lastActivityAt = Date.now();
+      await this.receive(data.toString());
+    });
+
+    ws.on('pong', () => {
+      this.state.lastPongAt = this.state.lastActivityAt = Date.now();
     });
 
     ws.on('error', (error: Error) => {
@@ -89,12 +346,127 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
     ws.on('close', (code: number, reason: Buffer) => {
       console.log(`[SignalAfferent ${botPhone}] WebSocket closed: ${code} - ${reason.toString()}`);
       this.state.connected = false;
+      this.stopHeartbeat();
+      this.emitStatus('disconnected');
 
       // Attempt reconnection with exponential backoff
       this.scheduleReconnect();
     });
   }
 
+  /**
+   * Ping periodically and terminate the socket if nothing (pong or message)
+   * came back within staleTimeout. Half-open TCP connections never fire
+   * 'close' on their own, so this is what triggers the reconnect for them.
+   */
+  private startHeartbeat(ws: WebSocket): void {
+    const { botPhone } = this.context.config;
+    const pingInterval = this.context.config.pingInterval ?? 30000;
+    const staleTimeout = this.context.config.staleTimeout ?? 90000;
+
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      const silentFor = Date.now() - (this.state.lastActivityAt || 0);
+
+      if (silentFor > staleTimeout) {
+        console.warn(`[SignalAfferent ${botPhone}] No traffic for ${Math.round(silentFor / 1000)}s, terminating stale connection`);
+        this.emitStatus('stale');
+        this.stopHeartbeat();
+        // terminate() fires 'close', which schedules the reconnect
+        ws.terminate();
+        return;
+      }
+
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+      }
+    }, pingInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /**
+   * Emit the current connection state so it can be reflected in VEIL
+   */
+  private emitStatus(state: 'connected' | 'disconnected' | 'stale'): void {
+    this.emit({
+      topic: 'signal:connection-status',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        afferentId: this.context.afferentId,
+        state,
+        ...this.getStatus()
+      } satisfies SignalConnectionStatusPayload
+    });
+  }
+
+  /**
+   * Start of the backlog signal-cli flushes after a (re)connect. Receptors use
+   * startedAt to tell queued messages from live ones.
+   */
+  private beginCatchUp(): void {
+    clearTimeout(this.catchUp?.quietTimer);
+    this.catchUp = { startedAt: Date.now(), messageCount: 0 };
+    this.emitCatchUp('start');
+    this.scheduleCatchUpEnd();
+  }
+
+  /**
+   * Count an envelope towards the current catch-up, if there is one
+   */
+  private noteCatchUp(timestamp: number): void {
+    if (!this.catchUp) return;
+
+    this.catchUp.messageCount++;
+    if (timestamp < (this.catchUp.oldestTimestamp ?? Infinity)) {
+      this.catchUp.oldestTimestamp = timestamp;
+    }
+    this.scheduleCatchUpEnd();
+  }
+
+  private scheduleCatchUpEnd(): void {
+    const catchUp = this.catchUp;
+    if (!catchUp) return;
+
+    clearTimeout(catchUp.quietTimer);
+    catchUp.quietTimer = setTimeout(() => {
+      // Backlog envelopes may still be downloading attachments
+      if (this.ingestQueue.size > 0) {
+        this.scheduleCatchUpEnd();
+        return;
+      }
+
+      const { botPhone } = this.context.config;
+      console.log(`[SignalAfferent ${botPhone}] Caught up: ${catchUp.messageCount} envelope(s) in ${Math.round((Date.now() - catchUp.startedAt) / 1000)}s`);
+      this.emitCatchUp('end');
+      this.catchUp = undefined;
+    }, this.context.config.catchUpQuietPeriod ?? 2000);
+  }
+
+  private emitCatchUp(phase: 'start' | 'end'): void {
+    if (!this.catchUp) return;
+
+    this.emit({
+      topic: 'signal:catch-up',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        afferentId: this.context.afferentId,
+        botPhone: this.context.config.botPhone,
+        phase,
+        startedAt: this.catchUp.startedAt,
+        messageCount: this.catchUp.messageCount,
+        oldestTimestamp: this.catchUp.oldestTimestamp
+      } satisfies SignalCatchUpPayload
+    });
+  }
+
   private scheduleReconnect(): void {
     const { botPhone } = this.context.config;
     const now = Date.now();
@@ -104,12 +476,12 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
       this.state.firstReconnectAttempt = now;
     }
 
-    // Check if we've exceeded max reconnection time
     const firstAttemptTime = this.state.firstReconnectAttempt || now;
     const elapsedTime = now - firstAttemptTime;
+    const decision = this.reconnectPolicy.next(this.state.retryCount, elapsedTime);
 
-    if (elapsedTime >= this.maxReconnectTime) {
-      console.error(`[SignalAfferent ${botPhone}] Max reconnection time (5 minutes) exceeded. Giving up.`);
+    if (!decision) {
+      console.error(`[SignalAfferent ${botPhone}] Reconnection failed for ${Math.round(elapsedTime / 1000)}s. Giving up.`);
       this.state.retryCount = 0;
       this.state.firstReconnectAttempt = undefined;
 
@@ -128,71 +500,850 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
       return;
     }
 
-    // Exponential backoff: 1s, 2s, 4s, 8s, 16s, max 30s
-    const backoffDelay = Math.min(1000 * Math.pow(2, this.state.retryCount), 30000);
-    const remainingTime = Math.ceil((this.maxReconnectTime - elapsedTime) / 1000);
+    if (decision.circuit === 'open' && this.state.circuit === 'closed') {
+      console.error(`[SignalAfferent ${botPhone}] Reconnection failed for ${Math.round(elapsedTime / 1000)}s. Circuit open, probing every ~${Math.round(decision.delay / 1000)}s.`);
 
-    console.log(`[SignalAfferent ${botPhone}] Reconnecting in ${backoffDelay}ms (${remainingTime}s remaining)...`);
+      // Still retrying, so the error is recoverable - afferent:recovered follows when a probe succeeds
+      this.emit({
+        topic: 'afferent:error',
+        source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+        timestamp: Date.now(),
+        payload: {
+          afferentId: this.context.afferentId,
+          errorType: 'CIRCUIT_OPEN',
+          message: `Reconnection failing for ${Math.round(elapsedTime / 1000)}s, retrying slowly`,
+          recoverable: true
+        }
+      });
+    }
+    this.state.circuit = decision.circuit;
 
-    setTimeout(() => {
+    const probe = decision.circuit === 'open' ? ' (half-open probe)' : '';
+    console.log(`[SignalAfferent ${botPhone}] Reconnecting in ${decision.delay}ms, attempt ${this.state.retryCount + 1}${probe}...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
       this.state.retryCount++;
+      if (this.state.circuit === 'open') {
+        this.state.circuit = 'half-open';
+      }
       this.connect();
-    }, backoffDelay);
+    }, decision.delay);
   }
 
   /**
-   * Download an attachment from Signal API and return as base64
+   * Emit afferent:recovered after the connection came back from failed reconnection attempts
    */
-  private async downloadAttachment(attachmentId: string): Promise<string | null> {
-    const { botPhone, httpUrl } = this.context.config;
+  private emitRecovered(): void {
+    const { botPhone } = this.context.config;
+    const downtime = Date.now() - (this.state.firstReconnectAttempt || Date.now());
 
-    if (!httpUrl) {
-      console.warn(`[SignalAfferent ${botPhone}] No httpUrl configured, cannot download attachment`);
-      return null;
+    console.log(`[SignalAfferent ${botPhone}] Connection recovered after ${this.state.retryCount} attempt(s), ${Math.round(downtime / 1000)}s down`);
+
+    this.emit({
+      topic: 'afferent:recovered',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        afferentId: this.context.afferentId,
+        attempts: this.state.retryCount,
+        downtime,
+        recoverable: true
+      }
+    });
+  }
+
+  /**
+   * Close the current socket without triggering the automatic reconnect
+   */
+  private closeSocket(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    const ws = this.state.ws;
+    if (!ws) return;
+
+    this.state.ws = undefined;
+    ws.removeAllListeners();
+    // Closing a socket that is still connecting emits 'error' - keep it from going unhandled
+    ws.on('error', () => {});
+    ws.terminate();
+  }
+
+  private async reconnect(): Promise<void> {
+    const { botPhone } = this.context.config;
+
+    this.state.retryCount = 0;
+    this.state.firstReconnectAttempt = undefined;
+    this.state.circuit = 'closed';
+
+    if (this.context.config.receiveMode === 'poll') {
+      // Poll immediately instead of waiting out the current interval/backoff
+      if (this.pollTimer) {
+        clearTimeout(this.pollTimer);
+      }
+      this.startPolling();
+      return;
+    }
+
+    console.log(`[SignalAfferent ${botPhone}] Reconnecting on request`);
+    this.stopHeartbeat();
+    this.closeSocket();
+    if (this.state.connected) {
+      this.state.connected = false;
+      this.emitStatus('disconnected');
+    }
+    await this.connect();
+  }
+
+  /**
+   * Entry point for raw messages from either receive mode
+   */
+  private async receive(data: string): Promise<void> {
+    if (!this.paused) {
+      await this.handleMessage(data);
+      return;
+    }
+
+    const maxPaused = this.context.config.maxPausedMessages ?? 1000;
+    this.pausedMessages.push(data);
+    if (this.pausedMessages.length > maxPaused) {
+      this.pausedMessages.shift();
+      console.warn(`[SignalAfferent ${this.context.config.botPhone}] Pause buffer full, dropped oldest message`);
+    }
+  }
+
+  private async resume(): Promise<void> {
+    const { botPhone } = this.context.config;
+    this.paused = false;
+
+    const buffered = this.pausedMessages;
+    this.pausedMessages = [];
+    console.log(`[SignalAfferent ${botPhone}] Resuming, emitting ${buffered.length} buffered message(s)`);
+
+    for (const data of buffered) {
+      await this.handleMessage(data);
+    }
+  }
+
+  /**
+   * Re-emit a signal:message payload on behalf of this bot, e.g. one that the
+   * consistency checker saw this bot miss. Re-processed messages bypass group
+   * deduplication and bot-to-bot loop checks in the receptor.
+   */
+  private replay(payload: SignalMessagePayload | undefined): void {
+    const { botPhone } = this.context.config;
+
+    if (!payload) {
+      console.warn(`[SignalAfferent ${botPhone}] Replay command without payload, ignoring`);
+      return;
     }
 
+    console.log(`[SignalAfferent ${botPhone}] Replaying message ${payload.source}-${payload.timestamp}`);
+
+    this.emit({
+      topic: 'signal:message',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: payload.timestamp || Date.now(),
+      payload: {
+        ...payload,
+        botPhone,
+        __reprocessed: true
+      } satisfies SignalMessagePayload
+    });
+  }
+
+  /**
+   * HTTP base URL of the REST API - falls back to the WebSocket URL with an http(s) scheme
+   */
+  private getHttpUrl(): string {
+    const { httpUrl, wsUrl } = this.context.config;
+    return httpUrl || wsUrl.replace(/^ws(s?):\/\//, 'http$1://');
+  }
+
+  private startPolling(): void {
+    this.polling = true;
+    this.state.retryCount = 0;
+    this.pollGeneration++;
+    this.schedulePoll(0);
+  }
+
+  private schedulePoll(delay: number): void {
+    const generation = this.pollGeneration;
+    this.pollTimer = setTimeout(() => this.poll(generation), delay);
+  }
+
+  /**
+   * Poll GET /v1/receive/{number} once and feed the results through the
+   * same handling path as WebSocket messages
+   */
+  private async poll(generation: number): Promise<void> {
+    if (!this.polling || generation !== this.pollGeneration) return;
+
+    const { botPhone } = this.context.config;
+    const pollInterval = this.context.config.pollInterval ?? 1000;
+    const pollTimeout = this.context.config.pollTimeout ?? 10;
+    let nextDelay = pollInterval;
+
     try {
-      const url = `${httpUrl}/v1/attachments/${attachmentId}`;
-      console.log(`[SignalAfferent ${botPhone}] Downloading attachment from ${url}`);
+      const messages = await this.client.receive(botPhone, pollTimeout);
 
-      const response = await fetch(url);
-      if (!response.ok) {
-        console.error(`[SignalAfferent ${botPhone}] Failed to download attachment: ${response.status}`);
-        return null;
+      // Stopped while waiting - signal-cli has delivered these, but nothing should be emitted any more
+      if (!this.polling) return;
+
+      if (!this.state.connected) {
+        console.log(`[SignalAfferent ${botPhone}] Polling ${this.client.baseUrl}/v1/receive/${botPhone}`);
+        this.state.connected = true;
+        this.state.connectedAt = Date.now();
+        this.state.retryCount = 0;
+        this.emitStatus('connected');
+        this.beginCatchUp();
+      }
+      if (Array.isArray(messages) && messages.length > 0) {
+        this.state.lastMessageAt = Date.now();
       }
 
-      const buffer = await response.arrayBuffer();
-      const base64 = Buffer.from(buffer).toString('base64');
-      console.log(`[SignalAfferent ${botPhone}] Downloaded attachment: ${base64.length} bytes (base64)`);
-      return base64;
+      for (const message of Array.isArray(messages) ? messages : []) {
+        await this.receive(JSON.stringify(message));
+      }
     } catch (error) {
-      console.error(`[SignalAfferent ${botPhone}] Error downloading attachment:`, error);
+      // A reconnect replaced this poll loop while it was waiting - the new loop handles errors
+      if (!this.polling || generation !== this.pollGeneration) return;
+
+      if (this.state.connected) {
+        this.state.connected = false;
+        this.emitStatus('disconnected');
+      }
+      this.state.retryCount++;
+
+      // Exponential backoff on errors, capped at maxPollBackoff
+      const maxBackoff = this.context.config.maxPollBackoff ?? 30000;
+      nextDelay = Math.min(pollInterval * Math.pow(2, this.state.retryCount), maxBackoff);
+      console.error(`[SignalAfferent ${botPhone}] Poll failed (attempt ${this.state.retryCount}), retrying in ${nextDelay}ms:`, error instanceof Error ? error.message : String(error));
+    }
+
+    // Only the current loop reschedules - a poll replaced by a reconnect ends here
+    if (this.polling && generation === this.pollGeneration) {
+      this.schedulePoll(nextDelay);
+    }
+  }
+
+  /**
+   * Download an attachment from Signal API
+   */
+  private async downloadAttachment(attachmentId: string): Promise<Buffer | null> {
+    const { botPhone } = this.context.config;
+
+    try {
+      console.log(`[SignalAfferent ${botPhone}] Downloading attachment ${attachmentId}`);
+
+      const buffer = await this.client.getAttachment(attachmentId);
+      console.log(`[SignalAfferent ${botPhone}] Downloaded attachment: ${buffer.length} bytes`);
+      return buffer;
+    } catch (error) {
+      console.error(`[SignalAfferent ${botPhone}] Failed to download attachment:`, error instanceof Error ? error.message : String(error));
       return null;
     }
   }
 
+  /**
+   * Fetch metadata for every group this bot is in and emit a REFRESH
+   * signal:group-update for each group that is new or changed since the last
+   * snapshot. Catches changes whose update envelopes were missed.
+   */
+  private async refreshGroups(): Promise<void> {
+    const { botPhone } = this.context.config;
+
+    try {
+      const groups = await this.groupDirectory.refresh(botPhone);
+
+      for (const group of groups) {
+        const signature = groupSignature(group);
+        if (this.groupSignatures.get(group.groupId) === signature) continue;
+        this.groupSignatures.set(group.groupId, signature);
+
+        const { streamId, streamType } = this.resolveStream({ groupInfo: { groupId: group.groupId } }, botPhone);
+        this.emit({
+          topic: 'signal:group-update',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp: Date.now(),
+          payload: {
+            botPhone,
+            groupId: group.groupId,
+            updateType: 'REFRESH',
+            group,
+            timestamp: Date.now(),
+            streamId,
+            streamType
+          } satisfies SignalGroupUpdatePayload
+        });
+      }
+    } catch (error) {
+      console.error(`[SignalAfferent ${botPhone}] Error refreshing groups:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Whether this bot emits a (possibly group) event. Groups go through the
+   * ingestion coordinator when configured - standbys only emit what the
+   * group's primary missed - and otherwise the first bot to claim emits.
+   */
+  private async shouldEmitGroupEvent(eventId: string, groupId: string | undefined, receivedAt: number): Promise<boolean> {
+    const { botPhone, groupIngestion } = this.context.config;
+    if (!groupId || !groupIngestion) {
+      return this.deduplicator.shouldEmit(eventId, botPhone, !!groupId);
+    }
+
+    const { emit, failover } = await groupIngestion.admit(groupId, eventId, botPhone, this.deduplicator, receivedAt);
+    if (failover) {
+      this.emit({
+        topic: 'signal:group-failover',
+        source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+        timestamp: Date.now(),
+        payload: {
+          ...failover,
+          botPhone,
+          timestamp: Date.now()
+        } satisfies SignalGroupFailoverPayload
+      });
+    }
+    return emit;
+  }
+
+  /**
+   * Sync contacts and profiles and emit the ones that changed as a single signal:profile-update
+   */
+  private async syncProfiles(): Promise<void> {
+    const { botPhone } = this.context.config;
+
+    try {
+      const profiles = await this.profileSync.sync(botPhone);
+      if (profiles.length === 0) return;
+
+      this.emit({
+        topic: 'signal:profile-update',
+        source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+        timestamp: Date.now(),
+        payload: {
+          botPhone,
+          profiles,
+          timestamp: Date.now()
+        } satisfies SignalProfileUpdatePayload
+      });
+    } catch (error) {
+      console.error(`[SignalAfferent ${botPhone}] Error syncing profiles:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Process attachments - download images and attachments a processor is
+   * registered for. Bytes go to the attachment store when configured (facets
+   * then reference them by hash/URI); without a store only images are inlined
+   * as base64. Processor output is attached as `derived` content.
+   */
+  private async processAttachments(rawAttachments: any[]): Promise<any[]> {
+    const { botPhone, attachmentProcessors } = this.context.config;
+    const processedAttachments = [];
+
+    for (const attachment of rawAttachments) {
+      const contentType = attachment.contentType || '';
+      const isImage = contentType.startsWith('image/');
+      const processor = isImage ? undefined : attachmentProcessors?.find(contentType);
+      const entry: any = {
+        id: attachment.id,
+        contentType: attachment.contentType,
+        filename: attachment.filename,
+        size: attachment.size
+      };
+
+      if ((isImage || processor) && attachment.id) {
+        const buffer = await this.downloadAttachment(attachment.id);
+
+        if (buffer) {
+          if (isImage) {
+            const image = await this.normaliseImage(buffer, contentType);
+            Object.assign(entry, image.fields, await this.storeAttachmentData(image.data, true));
+          } else {
+            Object.assign(entry, await this.storeAttachmentData(buffer, false));
+          }
+
+          if (processor) {
+            const derived: DerivedContent | null = await attachmentProcessors!.process({
+              data: buffer,
+              contentType,
+              filename: attachment.filename
+            });
+
+            if (derived) {
+              console.log(`[SignalAfferent ${botPhone}] ${derived.processor} derived ${derived.kind} from ${attachment.filename || attachment.id}`);
+              const { images, ...rest } = derived;
+              entry.derived = {
+                ...rest,
+                images: images && await Promise.all(images.map(async derivedImage => {
+                  const image = await this.normaliseImage(derivedImage.data, derivedImage.contentType);
+                  return {
+                    contentType: derivedImage.contentType,
+                    ...image.fields,
+                    ...(await this.storeAttachmentData(image.data, true))
+                  };
+                }))
+              };
+            }
+          }
+        }
+        // Failed downloads keep metadata only
+      }
+
+      processedAttachments.push(entry);
+    }
+
+    return processedAttachments;
+  }
+
+  /**
+   * Run an image through the configured image pipeline, returning the bytes to
+   * keep and the attachment entry fields describing the result.
+   * Images that can't be decoded are kept as they are.
+   */
+  private async normaliseImage(buffer: Buffer, contentType: string): Promise<{ data: Buffer; fields: Record<string, any> }> {
+    const { botPhone, imagePipeline } = this.context.config;
+    if (!imagePipeline) {
+      return { data: buffer, fields: {} };
+    }
+
+    try {
+      const processed = await imagePipeline.process(buffer, contentType);
+      console.log(`[SignalAfferent ${botPhone}] Normalised image ${processed.originalSize} -> ${processed.processedSize} bytes (${processed.width}x${processed.height})`);
+      return {
+        data: processed.data,
+        fields: {
+          contentType: processed.contentType,
+          width: processed.width,
+          height: processed.height,
+          originalContentType: processed.originalContentType,
+          originalSize: processed.originalSize,
+          processedSize: processed.processedSize
+        }
+      };
+    } catch (error) {
+      console.error(`[SignalAfferent ${botPhone}] Failed to normalise ${contentType} image, keeping original:`, error);
+      return { data: buffer, fields: {} };
+    }
+  }
+
+  /**
+   * Put attachment bytes in the attachment store, returning the hash/URI reference.
+   * Without a store (or if storing fails) the bytes are inlined as base64 when allowed.
+   */
+  private async storeAttachmentData(buffer: Buffer, inlineFallback: boolean): Promise<{ hash?: string; uri?: string; data?: string }> {
+    const { botPhone, attachmentStore } = this.context.config;
+
+    if (attachmentStore) {
+      try {
+        const stored = await attachmentStore.put(buffer);
+        return { hash: stored.hash, uri: stored.uri };
+      } catch (error) {
+        console.error(`[SignalAfferent ${botPhone}] Failed to store attachment${inlineFallback ? ', inlining it' : ''}:`, error);
+      }
+    }
+
+    return inlineFallback ? { data: buffer.toString('base64') } : {};
+  }
+
+  /**
+   * Resolve the conversation a data message belongs to
+   *
+   * @param peer Sender key (see senderKey) of the other party, used for DMs
+   */
+  private resolveStream(dataMessage: any, peer: string): {
+    groupId?: string;
+    conversationKey: string;
+    isGroupChat: boolean;
+    streamId: string;
+    streamType: string;
+  } {
+    const { botPhone } = this.context.config;
+
+    // Check both groupInfo and groupV2 (Signal uses different fields for different group versions)
+    const groupInfo = dataMessage.groupInfo || dataMessage.groupV2;
+    const groupId: string | undefined = groupInfo?.groupId;
+    const conversationKey = groupId || peer;
+    const isGroupChat = !!groupId;
+    // For DMs, include botPhone in streamId so each bot has its own stream with the user
+    // For groups, just use the groupId since all bots share the same group conversation
+    // This MUST match the receptor's streamId generation! (receptors may still reuse a legacy phone-keyed DM stream)
+    const streamId = isGroupChat
+      ? `signal-stream-${conversationKey}`
+      : `signal-stream-${botPhone}-${conversationKey}`;
+
+    return { groupId, conversationKey, isGroupChat, streamId, streamType: 'signal' };
+  }
+
+  /**
+   * Add a delivery/read receipt to the pending batch
+   */
+  private queueReceipt(source: string, sourceUuid: string, receiptMessage: any): void {
+    const type = receiptMessage.isViewed ? 'viewed' : receiptMessage.isRead ? 'read' : 'delivery';
+    const key = `${source}:${type}`;
+
+    let pending = this.pendingReceipts.get(key);
+    if (!pending) {
+      pending = { source, sourceUuid, type, when: receiptMessage.when, timestamps: new Set() };
+      this.pendingReceipts.set(key, pending);
+    }
+    for (const ts of receiptMessage.timestamps) {
+      pending.timestamps.add(ts);
+    }
+    pending.when = Math.max(pending.when || 0, receiptMessage.when || 0);
+
+    if (!this.receiptFlushTimer) {
+      const coalesceMs = this.context.config.receiptCoalesceMs ?? 2000;
+      this.receiptFlushTimer = setTimeout(() => this.flushReceipts(), coalesceMs);
+    }
+  }
+
+  /**
+   * Emit all pending receipts as a single signal:receipt event
+   */
+  private flushReceipts(): void {
+    const { botPhone } = this.context.config;
+    this.receiptFlushTimer = undefined;
+
+    if (this.pendingReceipts.size === 0) return;
+
+    const receipts = Array.from(this.pendingReceipts.values()).map(pending => ({
+      source: pending.source,
+      sourceUuid: pending.sourceUuid,
+      type: pending.type,
+      when: pending.when,
+      timestamps: Array.from(pending.timestamps)
+    }));
+    this.pendingReceipts.clear();
+
+    console.log(`[SignalAfferent ${botPhone}] Emitting signal:receipt event with ${receipts.length} receipt(s)`);
+
+    this.emit({
+      topic: 'signal:receipt',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        botPhone,
+        receipts
+      } satisfies SignalReceiptPayload
+    });
+  }
+
+  /**
+   * Report an envelope that failed validation. Recoverable - the message is
+   * skipped and receiving continues.
+   */
+  private reportMalformed(data: string, errors: string[]): void {
+    const { botPhone } = this.context.config;
+    console.error(`[SignalAfferent ${botPhone}] Malformed envelope: ${errors.join('; ')}`);
+
+    this.emit({
+      topic: 'afferent:error',
+      source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+      timestamp: Date.now(),
+      payload: {
+        afferentId: this.context.afferentId,
+        errorType: 'MALFORMED_ENVELOPE',
+        message: `Malformed envelope: ${errors.join('; ')}`,
+        recoverable: true,
+        errors,
+        raw: data.substring(0, 1000)
+      }
+    });
+  }
+
+  /**
+   * Track typing state per sender and only emit on changes.
+   * Signal clients repeat STARTED every few seconds while typing and may never
+   * send STOPPED (app closed), so repeats extend an expiry timer instead.
+   */
+  private handleTyping(source: string, sourceUuid: string, sourceNumber: string | undefined, sourceName: string, typingMessage: any, receivedAt: number): void {
+    const { botPhone } = this.context.config;
+    const sender = senderKey({ sourceUuid, sourceNumber, source });
+    const groupInfo = typingMessage.groupId ? { groupId: typingMessage.groupId } : undefined;
+    const { groupId, streamId, streamType } = this.resolveStream({ groupInfo }, sender);
+    const expiryMs = this.context.config.typingExpiryMs ?? 15000;
+
+    const key = `${streamId}:${source}`;
+    const existing = this.typingStates.get(key);
+    const timestamp = typingMessage.timestamp || Date.now();
+
+    // Fire-and-forget from handlers and timers, so failures are logged here
+    const emitTyping = async (action: 'STARTED' | 'STOPPED', dedupId: string, expired: boolean = false) => {
+      try {
+        // Every bot in a group sees the same typing envelopes
+        if (!(await this.shouldEmitGroupEvent(dedupId, groupId, receivedAt))) return;
+
+        this.emit({
+          topic: 'signal:typing',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp: Date.now(),
+          payload: {
+            botPhone,
+            source,
+            sourceUuid,
+            sourceNumber,
+            sourceName,
+            groupId,
+            action,
+            expired,
+            expiresAt: action === 'STARTED' ? Date.now() + expiryMs : undefined,
+            timestamp,
+            streamId,
+            streamType
+          } satisfies SignalTypingPayload
+        });
+      } catch (error) {
+        console.error(`[SignalAfferent ${botPhone}] Error emitting typing ${action}:`, error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    if (existing) {
+      clearTimeout(existing.expiryTimer);
+      this.typingStates.delete(key);
+    }
+
+    if (typingMessage.action === 'STARTED') {
+      const startedAt = existing?.startedAt ?? timestamp;
+      const expiryTimer = setTimeout(() => {
+        this.typingStates.delete(key);
+        emitTyping('STOPPED', `typing-${sender}-EXPIRED-${startedAt}`, true);
+      }, expiryMs);
+      this.typingStates.set(key, { startedAt, expiryTimer });
+
+      if (!existing) {
+        emitTyping('STARTED', `typing-${sender}-STARTED-${timestamp}`);
+      }
+    } else if (existing) {
+      emitTyping('STOPPED', `typing-${sender}-STOPPED-${timestamp}`);
+    }
+  }
+
   private async handleMessage(data: string): Promise<void> {
     const { botPhone } = this.context.config;
 
     console.log(`[SignalAfferent ${botPhone}] Received WebSocket message:`, data.substring(0, 200));
 
+    let slot: IngestSlot | undefined;
     try {
-      const message = JSON.parse(data);
-      const envelope = message.envelope || {};
+      const validation = validateReceivedMessage(JSON.parse(data));
+      if (!validation.valid) {
+        this.reportMalformed(data, validation.errors);
+        return;
+      }
+      const envelope = validation.message.envelope;
 
       console.log(`[SignalAfferent ${botPhone}] Parsed envelope:`, JSON.stringify(envelope, null, 2).substring(0, 500));
 
       // Extract basic message info
-      const source = envelope.source || envelope.sourceNumber || 'unknown';
+      const source = envelope.source || envelope.sourceNumber || envelope.sourceUuid || 'unknown';
       const sourceUuid = envelope.sourceUuid || '';
+      const sourceNumber = envelope.sourceNumber || (isPhoneNumber(envelope.source) ? envelope.source : undefined);
+      // UUID-first key - stays the same whether or not the sender shares their number
+      const sender = senderKey({ sourceUuid, sourceNumber, source });
       const sourceName = envelope.sourceName || ''; // Signal display name
+      // When the server got the message, or when it got here - group ingestion ages messages by it, not the sender's clock
+      const receivedAt = envelope.serverReceivedTimestamp || Date.now();
       const timestamp = envelope.timestamp || Date.now();
-      const dataMessage = envelope.dataMessage || {};
-      const receiptMessage = envelope.receiptMessage || {};
-      const typingMessage = envelope.typingMessage || {};
+      const dataMessage: SignalDataMessage = envelope.dataMessage || {};
+      const receiptMessage: Partial<SignalReceiptMessage> = envelope.receiptMessage || {};
+      const typingMessage: Partial<SignalTypingMessage> = envelope.typingMessage || {};
+      const editMessage = envelope.editMessage;
+
+      const sentMessage = envelope.syncMessage?.sentMessage;
+      const groupUpdateType = dataMessage.groupInfo?.type;
+      // Other party of a sync message sent from a linked device
+      const destinationKey = sentMessage && senderKey({
+        sourceUuid: sentMessage.destinationUuid || undefined,
+        sourceNumber: sentMessage.destinationNumber || undefined,
+        source: sentMessage.destination || undefined
+      });
+
+      // Reserve this envelope's place in its conversation before anything is awaited,
+      // so attachment downloads and group lookups can't reorder what gets emitted
+      const conversation = this.resolveStream(sentMessage || editMessage?.dataMessage || dataMessage, destinationKey || sender);
+      slot = this.ingestQueue.reserve(conversation.conversationKey, timestamp);
+      this.noteCatchUp(timestamp);
 
       // Determine message type and emit appropriate event
-      if (dataMessage.message !== undefined || dataMessage.attachments) {
+      if (sentMessage && (sentMessage.message || sentMessage.attachments?.length)) {
+        // Message sent as the bot account from a linked device (operator's phone/desktop)
+        const destination = sentMessage.destinationNumber || sentMessage.destination || sentMessage.destinationUuid || '';
+        const { groupId, streamId, streamType } = this.resolveStream(sentMessage, destinationKey || '');
+
+        console.log(`[SignalAfferent ${botPhone}] Emitting outgoing signal:message event - to: ${groupId || destination}, message: "${sentMessage.message}"`);
+
+        const processedAttachments = await this.processAttachments(sentMessage.attachments || []);
+
+        // Sync messages only reach the sending account, so no group deduplication is needed
+        slot.release(() => this.emit({
+          topic: 'signal:message',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp,
+          payload: {
+            botPhone,
+            source: botPhone,
+            sourceUuid,
+            sourceName,
+            groupId,
+            destination,
+            destinationUuid: sentMessage.destinationUuid || undefined,
+            isOutgoing: true,
+            message: sentMessage.message || '',
+            attachments: processedAttachments,
+            mentions: sentMessage.mentions || [],
+            quote: sentMessage.quote,
+            timestamp: sentMessage.timestamp || envelope.timestamp,
+            rawEnvelope: envelope,
+            streamId,
+            streamType
+          } satisfies SignalMessagePayload
+        }));
+      } else if (editMessage?.dataMessage) {
+        // Edit of a previously sent message - carries the full replacement text
+        const editedData = editMessage.dataMessage;
+        const { groupId, streamId, streamType } = this.resolveStream(editedData, sender);
+
+        console.log(`[SignalAfferent ${botPhone}] Emitting signal:edit event - from: ${source}, target: ${editMessage.targetSentTimestamp}, message: "${editedData.message}"`);
+
+        const editId = `edit-${messageKey({ sourceUuid, sourceNumber, source }, timestamp)}`;
+        if (!(await this.shouldEmitGroupEvent(editId, groupId, receivedAt))) {
+          console.log(`[SignalAfferent ${botPhone}] Skipping duplicate group edit ${editId.substring(0, 50)}...`);
+          return;
+        }
+
+        slot.release(() => this.emit({
+          topic: 'signal:edit',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp,
+          payload: {
+            botPhone,
+            source,
+            sourceUuid,
+            sourceNumber,
+            sourceName,
+            groupId,
+            message: editedData.message || '',
+            mentions: editedData.mentions || [],
+            targetTimestamp: editMessage.targetSentTimestamp,
+            timestamp: envelope.timestamp,
+            streamId,
+            streamType
+          } satisfies SignalEditPayload
+        }));
+      } else if (dataMessage.remoteDelete) {
+        // Sender deleted one of their messages for everyone
+        const { groupId, streamId, streamType } = this.resolveStream(dataMessage, sender);
+        const targetTimestamp = dataMessage.remoteDelete.timestamp;
+
+        console.log(`[SignalAfferent ${botPhone}] Emitting signal:delete event - from: ${source}, target: ${targetTimestamp}`);
+
+        const deleteId = `delete-${messageKey({ sourceUuid, sourceNumber, source }, timestamp)}`;
+        if (!(await this.shouldEmitGroupEvent(deleteId, groupId, receivedAt))) {
+          console.log(`[SignalAfferent ${botPhone}] Skipping duplicate group delete ${deleteId.substring(0, 50)}...`);
+          return;
+        }
+
+        slot.release(() => this.emit({
+          topic: 'signal:delete',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp,
+          payload: {
+            botPhone,
+            source,
+            sourceUuid,
+            sourceNumber,
+            sourceName,
+            groupId,
+            targetTimestamp,
+            timestamp: envelope.timestamp,
+            streamId,
+            streamType
+          } satisfies SignalDeletePayload
+        }));
+      } else if (dataMessage.reaction) {
+        // Emoji reaction - these arrive as data messages without text
+        const reaction = dataMessage.reaction;
+        const { groupId, streamId, streamType } = this.resolveStream(dataMessage, sender);
+
+        console.log(`[SignalAfferent ${botPhone}] Emitting signal:reaction event - from: ${source}, emoji: ${reaction.emoji}${reaction.isRemove ? ' (removed)' : ''}`);
+
+        // Deduplicate group reactions the same way as group messages
+        const reactionId = `reaction-${messageKey({ sourceUuid, sourceNumber, source }, timestamp)}`;
+        if (!(await this.shouldEmitGroupEvent(reactionId, groupId, receivedAt))) {
+          console.log(`[SignalAfferent ${botPhone}] Skipping duplicate group reaction ${reactionId.substring(0, 50)}...`);
+          return;
+        }
+
+        slot.release(() => this.emit({
+          topic: 'signal:reaction',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp,
+          payload: {
+            botPhone,
+            source,
+            sourceUuid,
+            sourceNumber,
+            sourceName,
+            groupId,
+            emoji: reaction.emoji,
+            isRemove: !!reaction.isRemove,
+            targetAuthor: reaction.targetAuthor,
+            targetAuthorNumber: reaction.targetAuthorNumber,
+            targetAuthorUuid: reaction.targetAuthorUuid,
+            targetTimestamp: reaction.targetSentTimestamp,
+            timestamp: envelope.timestamp,
+            streamId,
+            streamType
+          } satisfies SignalReactionPayload
+        }));
+      } else if ((groupUpdateType === 'UPDATE' || groupUpdateType === 'QUIT') && !dataMessage.message && !dataMessage.attachments?.length) {
+        // Group change (members, name, description, avatar, admins) - the envelope
+        // only says something changed, so fetch the group's current state
+        const updateType = groupUpdateType;
+        const { groupId, streamId, streamType } = this.resolveStream(dataMessage, sender);
+        if (!groupId) return;
+
+        console.log(`[SignalAfferent ${botPhone}] Emitting signal:group-update event - from: ${source}, type: ${updateType}, group: ${groupId.substring(0, 20)}...`);
+
+        // Every bot's cached copy is stale now, even if another bot emits the event
+        this.groupDirectory.invalidate(groupId);
+
+        const updateId = `group-update-${messageKey({ sourceUuid, sourceNumber, source }, timestamp)}`;
+        if (!(await this.shouldEmitGroupEvent(updateId, groupId, receivedAt))) {
+          console.log(`[SignalAfferent ${botPhone}] Skipping duplicate group update ${updateId.substring(0, 50)}...`);
+          return;
+        }
+
+        const group = await this.groupDirectory.getGroup(botPhone, groupId);
+        if (group) this.groupSignatures.set(group.groupId, groupSignature(group));
+
+        slot.release(() => this.emit({
+          topic: 'signal:group-update',
+          source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
+          timestamp,
+          payload: {
+            botPhone,
+            source,
+            sourceUuid,
+            sourceNumber,
+            sourceName,
+            groupId,
+            updateType,
+            revision: dataMessage.groupInfo?.revision,
+            group, // null if the group could not be fetched (e.g. the bot itself was removed)
+            timestamp: envelope.timestamp,
+            streamId,
+            streamType
+          } satisfies SignalGroupUpdatePayload
+        }));
+      } else if (dataMessage.message !== undefined || dataMessage.attachments) {
         // Regular message
         console.log(`[SignalAfferent ${botPhone}] Emitting signal:message event - from: ${source}, message: "${dataMessage.message}"`);
 
@@ -201,68 +1352,22 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
           console.log(`[SignalAfferent ${botPhone}] dataMessage.mentions:`, JSON.stringify(dataMessage.mentions));
         }
 
-        // Process attachments - download images and convert to base64
-        const rawAttachments = dataMessage.attachments || [];
-        const processedAttachments = [];
-
-        for (const attachment of rawAttachments) {
-          const contentType = attachment.contentType || '';
-          const isImage = contentType.startsWith('image/');
-
-          if (isImage && attachment.id) {
-            // Download image and convert to base64
-            const base64Data = await this.downloadAttachment(attachment.id);
-            if (base64Data) {
-              processedAttachments.push({
-                id: attachment.id,
-                contentType: attachment.contentType,
-                filename: attachment.filename,
-                size: attachment.size,
-                data: base64Data
-              });
-            } else {
-              // Failed to download, include metadata only
-              processedAttachments.push({
-                id: attachment.id,
-                contentType: attachment.contentType,
-                filename: attachment.filename,
-                size: attachment.size
-              });
-            }
-          } else {
-            // Non-image attachment, include metadata only
-            processedAttachments.push({
-              id: attachment.id,
-              contentType: attachment.contentType,
-              filename: attachment.filename,
-              size: attachment.size
-            });
-          }
-        }
-
         // Build stream ID for this conversation
-        // Check both groupInfo and groupV2 (Signal uses different fields for different group versions)
-        const groupInfo = dataMessage.groupInfo || dataMessage.groupV2;
-        const groupId = groupInfo?.groupId;
-        const conversationKey = groupId || source;
-        const isGroupChat = !!groupId;
-        // For DMs, include botPhone in streamId so each bot has its own stream with the user
-        // For groups, just use the groupId since all bots share the same group conversation
-        // This MUST match the receptor's streamId generation!
-        const streamId = isGroupChat
-          ? `signal-stream-${conversationKey}`
-          : `signal-stream-${botPhone}-${conversationKey}`;
-        const streamType = 'signal';
-
-        // Deduplicate group messages - only first bot to receive emits an event
+        const { groupId, streamId, streamType } = this.resolveStream(dataMessage, sender);
+
+        // Deduplicate group messages - only one bot emits (the first, or the group's primary receiver)
         // This reduces frame creation from N bots to 1 per group message
-        const messageId = `${source}-${timestamp}`;
-        if (!messageDeduplicator.shouldEmit(messageId, botPhone, isGroupChat)) {
+        const messageId = messageKey({ sourceUuid, sourceNumber, source }, timestamp);
+        if (!(await this.shouldEmitGroupEvent(messageId, groupId, receivedAt))) {
           console.log(`[SignalAfferent ${botPhone}] Skipping duplicate group message ${messageId.substring(0, 50)}...`);
           return;
         }
 
-        this.emit({
+        // Process attachments - download images and convert to base64
+        // (after deduplication, so only the emitting bot downloads and runs processors)
+        const processedAttachments = await this.processAttachments(dataMessage.attachments || []);
+
+        slot.release(() => this.emit({
           topic: 'signal:message',
           source: { elementId: this.element?.id || 'signal-afferent', elementPath: [] },
           timestamp,
@@ -270,6 +1375,7 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
             botPhone,
             source,
             sourceUuid,
+            sourceNumber,
             sourceName, // Signal display name
             groupId,
             message: dataMessage.message || '',
@@ -280,19 +1386,49 @@ export class SignalAfferent extends BaseAfferent<SignalAfferentConfig> {
             rawEnvelope: envelope,
             streamId,
             streamType
-          }
-        });
+          } satisfies SignalMessagePayload
+        }));
+      } else if (receiptMessage.timestamps && this.context.config.emitReceipts) {
+        // Receipts and typing indicators are opt-in - they create frames but rarely
+        // contribute to conversation context, so they are batched and throttled.
+        this.queueReceipt(source, sourceUuid, receiptMessage);
+      } else if (typingMessage.action && this.context.config.emitTyping) {
+        this.handleTyping(source, sourceUuid, sourceNumber, sourceName, typingMessage, receivedAt);
       }
-      // Skip receipts and typing indicators - they create frames but don't
-      // contribute to conversation context, causing unnecessary overhead.
-      // Receipt: receiptMessage.when (delivery/read confirmations)
-      // Typing: typingMessage (typing indicators)
     } catch (error) {
       if (error instanceof SyntaxError) {
         console.error(`[SignalAfferent ${botPhone}] Failed to parse JSON:`, data);
+        this.reportMalformed(data, [`invalid JSON: ${error.message}`]);
       } else {
         console.error(`[SignalAfferent ${botPhone}] Error handling message:`, error);
       }
+    } finally {
+      // No-op if an event was already handed over; otherwise lets later envelopes through
+      slot?.release();
     }
   }
 }
+
+/**
+ * Build a MessageConsistencyReceptor reconnectBot callback that drives
+ * afferents through their command protocol: reconnect the bot, then replay
+ * the message it missed.
+ */
+export function createReconnectHandler(afferents: Map<string, SignalAfferent>): (botPhone: string, queuedMessage?: SignalMessagePayload) => void {
+  return (botPhone: string, queuedMessage?: SignalMessagePayload) => {
+    const afferent = afferents.get(botPhone);
+    if (!afferent) {
+      console.warn(`[SignalAfferent] No afferent registered for ${botPhone}, cannot reconnect`);
+      return;
+    }
+
+    (async () => {
+      await afferent.onCommand({ type: 'reconnect' });
+      if (queuedMessage) {
+        await afferent.onCommand({ type: 'replay', payload: queuedMessage });
+      }
+    })().catch(error => {
+      console.error(`[SignalAfferent ${botPhone}] Reconnect handler failed:`, error);
+    });
+  };
+}
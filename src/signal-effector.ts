@@ -4,16 +4,27 @@
  * Observes speech facets and sends them via Signal CLI REST API
  */
 
-import axios from 'axios';
 import { BaseEffector } from 'connectome-ts';
 import type { EffectorResult, FacetDelta, ReadonlyVEILState } from 'connectome-ts';
+import { GroupDirectory } from './group-directory.js';
+import { SignalRestClient, SignalApiError } from './signal-rest-client.js';
+import type { SendMessageRequest, SignalMentionRequest } from './signal-rest-client.js';
+import type { SignalSentPayload, SignalSendErrorPayload } from './signal-types.js';
+import { recipientAddress } from './message-identity.js';
+import { mentionTargets } from './signal-profiles.js';
 
 export interface SignalEffectorConfig {
   apiUrl: string; // e.g., 'http://localhost:8081'
   // Map of bot phone numbers to their display names
   botNames: Map<string, string>;
+  // Map of bot phone numbers to their UUIDs - mentions of bots are addressed by UUID when known
+  botUuids?: Map<string, string>;
   // Maximum message length before splitting
   maxMessageLength?: number;
+  // Shared REST client - one is created from apiUrl if not provided
+  restClient?: SignalRestClient;
+  // Shared group ID resolution - one is created per effector if not provided
+  groupDirectory?: GroupDirectory;
 }
 
 // Helper to create reverse map (name -> phone)
@@ -25,11 +36,12 @@ function createNameToPhoneMap(botNames: Map<string, string>): Map<string, string
   return nameToPhone;
 }
 
-// Mention structure for Signal API
-interface SignalMention {
-  start: number;
-  length: number;
-  author: string; // phone number
+// Result of sending a speech facet - one timestamp per chunk sent
+interface SentMessage {
+  botPhone: string;
+  recipientId: string;
+  streamId: string;
+  timestamps: number[];
 }
 
 /**
@@ -38,12 +50,15 @@ interface SignalMention {
 export class SignalSpeechEffector extends BaseEffector {
   private config: SignalEffectorConfig;
   private maxMessageLength: number;
-  private groupIdCache = new Map<string, string>(); // Cache internal_id -> external id mappings
+  private client: SignalRestClient;
+  private groupDirectory: GroupDirectory;
   private nameToPhone: Map<string, string>; // Reverse map: bot name -> phone number
 
   constructor(config: SignalEffectorConfig) {
     super();
     this.config = config;
+    this.client = config.restClient || new SignalRestClient({ baseUrl: config.apiUrl });
+    this.groupDirectory = config.groupDirectory || new GroupDirectory({ client: this.client });
     this.maxMessageLength = config.maxMessageLength || 400;
     this.nameToPhone = createNameToPhoneMap(config.botNames);
   }
@@ -54,7 +69,20 @@ export class SignalSpeechEffector extends BaseEffector {
     for (const change of changes) {
       if (change.type === 'added' && change.facet.type === 'speech') {
         try {
-          await this.sendSpeech(change.facet, state);
+          const sent = await this.sendSpeech(change.facet, state);
+
+          // Report Signal's sent timestamps so receipts can be matched to this facet
+          if (sent && sent.timestamps.length > 0) {
+            events.push({
+              topic: 'signal:sent',
+              source: { elementId: this.element?.id || 'signal-effector', elementPath: [] },
+              timestamp: Date.now(),
+              payload: {
+                facetId: change.facet.id,
+                ...sent
+              } satisfies SignalSentPayload
+            });
+          }
         } catch (error) {
           console.error('[SignalSpeechEffector] Error sending speech:', error);
           // Emit error event
@@ -64,8 +92,9 @@ export class SignalSpeechEffector extends BaseEffector {
             timestamp: Date.now(),
             payload: {
               facetId: change.facet.id,
-              error: error instanceof Error ? error.message : String(error)
-            }
+              error: error instanceof Error ? error.message : String(error),
+              kind: error instanceof SignalApiError ? error.kind : undefined
+            } satisfies SignalSendErrorPayload
           });
         }
       }
@@ -79,39 +108,16 @@ export class SignalSpeechEffector extends BaseEffector {
    * Signal provides internal_id in WebSocket messages, but /v2/send requires the external id
    */
   private async convertGroupId(internalId: string, botPhone: string): Promise<string | null> {
-    // Check cache first
-    const cached = this.groupIdCache.get(internalId);
-    if (cached) {
-      return cached;
-    }
-
-    // Fetch groups list from API
-    const url = `${this.config.apiUrl}/v1/groups/${botPhone}`;
-    try {
-      const response = await axios.get(url);
-      const groups = response.data;
-
-      // Find the group with matching internal_id
-      for (const group of groups) {
-        if (group.internal_id === internalId) {
-          // Cache the mapping
-          this.groupIdCache.set(internalId, group.id);
-          console.log(`[SignalSpeechEffector] Converted group ID: ${internalId.substring(0, 20)}... -> ${group.id}`);
-          return group.id;
-        }
-      }
-
+    const externalId = await this.groupDirectory.toExternalId(botPhone, internalId);
+    if (!externalId) {
       console.warn(`[SignalSpeechEffector] No external group ID found for internal_id: ${internalId}`);
-      return null;
-    } catch (error) {
-      console.error(`[SignalSpeechEffector] Error fetching groups for ${botPhone}:`, error instanceof Error ? error.message : String(error));
-      return null;
     }
+    return externalId;
   }
 
-  private async sendSpeech(facet: any, state: ReadonlyVEILState): Promise<void> {
+  private async sendSpeech(facet: any, state: ReadonlyVEILState): Promise<SentMessage | null> {
     let content = facet.content;
-    if (!content) return;
+    if (!content) return null;
 
     console.log(`[SignalSpeechEffector] Original content (first 100 chars): "${content.substring(0, 100)}"`);
     console.log(`[SignalSpeechEffector] Facet agentName: ${facet.agentName}, agentId: ${facet.agentId}`);
@@ -124,13 +130,13 @@ export class SignalSpeechEffector extends BaseEffector {
     const streamId = facet.streamId || facet.attributes?.streamId;
     if (!streamId) {
       console.warn('[SignalSpeechEffector] Speech facet has no streamId:', facet.id);
-      return;
+      return null;
     }
 
     const streamFacet = state.facets.get(streamId);
     if (!streamFacet) {
       console.warn('[SignalSpeechEffector] Stream not found:', streamId);
-      return;
+      return null;
     }
 
     const conversationKey = streamFacet.attributes?.conversationKey;
@@ -156,11 +162,12 @@ export class SignalSpeechEffector extends BaseEffector {
 
     if (!conversationKey || !botPhone) {
       console.warn('[SignalSpeechEffector] Missing conversation info in stream:', streamId);
-      return;
+      return null;
     }
 
     // For group chats, convert internal group ID to external group ID
-    let recipientId = conversationKey;
+    // DMs are keyed by the user's UUID, phone number or username
+    let recipientId = isGroupChat ? conversationKey : recipientAddress(conversationKey);
     if (isGroupChat) {
       const externalGroupId = await this.convertGroupId(conversationKey, botPhone);
       if (externalGroupId) {
@@ -173,7 +180,7 @@ export class SignalSpeechEffector extends BaseEffector {
 
     // Detect mentions in text (only for group chats)
     let processedContent = content;
-    let mentions: SignalMention[] = [];
+    let mentions: SignalMentionRequest[] = [];
     if (isGroupChat) {
       const result = this.detectMentions(content, state);
       processedContent = result.text;
@@ -185,12 +192,13 @@ export class SignalSpeechEffector extends BaseEffector {
 
     // Split message if too long
     const chunks = this.splitMessage(processedContent);
+    const timestamps: number[] = [];
 
     // Send each chunk (only first chunk gets mentions to avoid duplicate notifications)
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
 
-      const payload: any = {
+      const payload: SendMessageRequest = {
         number: botPhone,
         recipients: [recipientId],
         message: chunk,
@@ -204,10 +212,11 @@ export class SignalSpeechEffector extends BaseEffector {
 
       // TODO: Handle attachments from facet.attributes?.attachments
 
-      const url = `${this.config.apiUrl}/v2/send`;
-
       try {
-        await axios.post(url, payload);
+        const response = await this.client.send(payload);
+        if (response?.timestamp) {
+          timestamps.push(Number(response.timestamp));
+        }
 
         if (chunks.length > 1) {
           console.log(`[SignalSpeechEffector] Message chunk ${i + 1}/${chunks.length} sent to ${recipientId}`);
@@ -219,39 +228,28 @@ export class SignalSpeechEffector extends BaseEffector {
         throw error;
       }
     }
+
+    return { botPhone, recipientId, streamId, timestamps };
   }
 
   /**
    * Detect @mentions in text and convert to Signal mention format
-   * Looks for bot names and user display names, replaces with U+FFFC placeholder
+   * Looks for bot names and user display names, replaces with U+FFFC placeholder.
+   * Mentions are addressed by UUID when known, so users who hide their number can be mentioned.
    */
-  private detectMentions(text: string, state: ReadonlyVEILState): { text: string; mentions: SignalMention[] } {
-    const mentions: SignalMention[] = [];
+  private detectMentions(text: string, state: ReadonlyVEILState): { text: string; mentions: SignalMentionRequest[] } {
+    const mentions: SignalMentionRequest[] = [];
     let modifiedText = text;
 
-    // Build name -> phone mapping from bot names
-    const nameToPhone = new Map<string, string>();
-    for (const [phone, name] of this.config.botNames) {
-      nameToPhone.set(name, phone);
-    }
-
-    // Add user display names from user-profile facets
-    for (const facet of state.facets.values()) {
-      if (facet.type === 'user-profile') {
-        const displayName = facet.attributes?.displayName || facet.content;
-        const phone = facet.attributes?.phoneNumber;
-        if (displayName && phone) {
-          nameToPhone.set(displayName, phone);
-        }
-      }
-    }
+    // Build name -> author mapping from bot names and user-profile facets (including synced contacts)
+    const nameToAuthor = mentionTargets(state, this.config.botNames, this.config.botUuids);
 
     // Sort names by length (longest first) to avoid partial matches
-    const sortedNames = Array.from(nameToPhone.keys()).sort((a, b) => b.length - a.length);
+    const sortedNames = Array.from(nameToAuthor.keys()).sort((a, b) => b.length - a.length);
 
     for (const name of sortedNames) {
-      const phone = nameToPhone.get(name);
-      if (!phone) continue;
+      const author = nameToAuthor.get(name);
+      if (!author) continue;
 
       let searchPos = 0;
       while (true) {
@@ -275,11 +273,11 @@ export class SignalSpeechEffector extends BaseEffector {
           const replacement = '\uFFFC';
           modifiedText = modifiedText.substring(0, pos) + replacement + modifiedText.substring(pos + matchLength);
 
-          console.log(`[SignalSpeechEffector] Creating mention for '@${name}' -> phone: ${phone} at position ${utf16Start}`);
+          console.log(`[SignalSpeechEffector] Creating mention for '@${name}' -> author: ${author} at position ${utf16Start}`);
           mentions.push({
             start: utf16Start,
             length: 1,
-            author: phone
+            author
           });
 
           searchPos = pos + 1;
@@ -345,39 +343,22 @@ export type ConfigUpdateCallback = (updates: { randomReplyChance?: number; maxBo
  * and sends responses via Signal
  */
 export class SignalCommandEffector extends BaseEffector {
-  private config: SignalEffectorConfig;
   private onConfigUpdate?: ConfigUpdateCallback;
-  private groupIdCache = new Map<string, string>(); // Cache internal_id -> external id mappings
+  private client: SignalRestClient;
+  private groupDirectory: GroupDirectory;
 
   constructor(config: SignalEffectorConfig, onConfigUpdate?: ConfigUpdateCallback) {
     super();
-    this.config = config;
     this.onConfigUpdate = onConfigUpdate;
+    this.client = config.restClient || new SignalRestClient({ baseUrl: config.apiUrl });
+    this.groupDirectory = config.groupDirectory || new GroupDirectory({ client: this.client });
   }
 
   /**
    * Convert internal group ID to external group ID that the API expects
    */
   private async convertGroupId(internalId: string, botPhone: string): Promise<string | null> {
-    const cached = this.groupIdCache.get(internalId);
-    if (cached) return cached;
-
-    const url = `${this.config.apiUrl}/v1/groups/${botPhone}`;
-    try {
-      const response = await axios.get(url);
-      const groups = response.data;
-
-      for (const group of groups) {
-        if (group.internal_id === internalId) {
-          this.groupIdCache.set(internalId, group.id);
-          return group.id;
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error(`[SignalCommandEffector] Error fetching groups:`, error);
-      return null;
-    }
+    return this.groupDirectory.toExternalId(botPhone, internalId);
   }
 
   async process(changes: FacetDelta[], state: ReadonlyVEILState): Promise<EffectorResult> {
@@ -395,7 +376,7 @@ export class SignalCommandEffector extends BaseEffector {
   }
 
   private async handleCommand(facet: any, state: ReadonlyVEILState): Promise<void> {
-    const { command, args, botPhone, source, groupId, currentConfig } = facet.state;
+    const { command, args, botPhone, source, sourceUuid, groupId, currentConfig } = facet.state;
 
     console.log(`[SignalCommandEffector] Handling command: ${command} ${args}`);
 
@@ -526,12 +507,13 @@ export class SignalCommandEffector extends BaseEffector {
     }
 
     // Send response
-    await this.sendResponse(response, botPhone, source, groupId);
+    // DM replies go to the sender's UUID when known, so users who hide their number still get them
+    await this.sendResponse(response, botPhone, sourceUuid || source, groupId);
   }
 
-  private async sendResponse(message: string, botPhone: string, source: string, groupId?: string): Promise<void> {
+  private async sendResponse(message: string, botPhone: string, recipient: string, groupId?: string): Promise<void> {
     // For group chats, convert internal group ID to external group ID
-    let recipientId = source;
+    let recipientId = recipientAddress(recipient);
     if (groupId) {
       const externalGroupId = await this.convertGroupId(groupId, botPhone);
       if (externalGroupId) {
@@ -542,17 +524,15 @@ export class SignalCommandEffector extends BaseEffector {
       }
     }
 
-    const payload: any = {
+    const payload: SendMessageRequest = {
       number: botPhone,
       recipients: [recipientId],
       message,
       text_mode: 'styled'
     };
 
-    const url = `${this.config.apiUrl}/v2/send`;
-
     try {
-      await axios.post(url, payload);
+      await this.client.send(payload);
       console.log(`[SignalCommandEffector] Response sent to ${recipientId}`);
     } catch (error) {
       console.error(`[SignalCommandEffector] Failed to send response:`, error);
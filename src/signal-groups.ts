@@ -0,0 +1,44 @@
+/**
+ * SignalGroups - Group lookups against the Signal CLI REST API
+ *
+ * Envelopes identify groups by their internal ID, while /v2/send expects the
+ * external "group.…" ID. GET /v1/groups/{number} lists both, along with the
+ * group's name, description, members and admins.
+ */
+
+import type { SignalRestClient } from './signal-rest-client.js';
+
+/**
+ * Group metadata as reported by GET /v1/groups/{number}
+ */
+export interface SignalGroupSnapshot {
+  groupId: string; // internal ID, as used in envelopes and conversation keys
+  externalId: string; // "group.…" ID used for sending
+  name?: string;
+  description?: string;
+  members: string[];
+  admins: string[];
+}
+
+/**
+ * Fetch every group a bot is a member of. Throws if the request fails.
+ */
+export async function fetchGroups(client: SignalRestClient, botPhone: string): Promise<SignalGroupSnapshot[]> {
+  const groups = await client.listGroups(botPhone);
+
+  return (Array.isArray(groups) ? groups : []).map(group => ({
+    groupId: group.internal_id,
+    externalId: group.id,
+    name: group.name || undefined,
+    description: group.description || undefined,
+    members: group.members || [],
+    admins: group.admins || []
+  }));
+}
+
+/**
+ * Stable signature of a snapshot, for detecting whether a group changed
+ */
+export function groupSignature(group: SignalGroupSnapshot): string {
+  return JSON.stringify([group.name, group.description, [...group.members].sort(), [...group.admins].sort()]);
+}
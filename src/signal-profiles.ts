@@ -0,0 +1,194 @@
+/**
+ * SignalProfiles - Contact and profile lookups against the Signal CLI REST API
+ *
+ * GET /v1/contacts/{number} lists everyone a bot account knows, with the
+ * bot's contact name for them, their username and their Signal profile
+ * (name, about, avatar). Snapshots of these become user-profile facets,
+ * which the helpers below also use to resolve names for mentions.
+ */
+
+import { createHash } from 'crypto';
+import type { ReadonlyVEILState, VEILDelta } from 'connectome-ts';
+import type { SignalRestClient, RestContact } from './signal-rest-client.js';
+import { findBotPhone, findProfileFacet, profileFacetId, isUuid } from './message-identity.js';
+import type { BotIdentities, SenderIdentity } from './message-identity.js';
+
+/**
+ * A user's identifiers and profile as known to a bot
+ */
+export interface SignalProfileSnapshot {
+  uuid?: string;
+  number?: string;
+  username?: string;
+  displayName?: string; // Signal profile name, falling back to the bot's contact name
+  contactName?: string; // Name the bot account saved the contact under
+  about?: string;
+  hasAvatar?: boolean;
+  avatarHash?: string; // sha256 of the avatar image, when fetched
+  profileUpdatedAt?: number;
+}
+
+export function toProfileSnapshot(contact: RestContact): SignalProfileSnapshot {
+  const profileName = [contact.profile?.given_name, contact.profile?.family_name].filter(Boolean).join(' ') || contact.profile_name;
+
+  return {
+    uuid: contact.uuid || undefined,
+    number: contact.number || undefined,
+    username: contact.username || undefined,
+    displayName: profileName || contact.name || contact.username || undefined,
+    contactName: contact.name || undefined,
+    about: contact.profile?.about || undefined,
+    hasAvatar: contact.profile?.has_avatar,
+    profileUpdatedAt: contact.profile?.last_updated_timestamp || undefined
+  };
+}
+
+/**
+ * Fetch every contact of a bot as profile snapshots. Throws if the request fails.
+ */
+export async function fetchProfiles(client: SignalRestClient, botPhone: string): Promise<SignalProfileSnapshot[]> {
+  const contacts = await client.listContacts(botPhone);
+
+  return (Array.isArray(contacts) ? contacts : [])
+    .filter(contact => contact.uuid || contact.number)
+    .map(toProfileSnapshot);
+}
+
+/**
+ * sha256 of a contact's profile avatar. Throws if the request fails.
+ */
+export async function fetchAvatarHash(client: SignalRestClient, botPhone: string, uuid: string): Promise<string> {
+  const avatar = await client.getContactAvatar(botPhone, uuid);
+  return createHash('sha256').update(avatar).digest('hex');
+}
+
+/**
+ * Stable signature of a snapshot, for detecting whether a profile changed
+ */
+export function profileSignature(profile: SignalProfileSnapshot): string {
+  return JSON.stringify([profile.uuid, profile.number, profile.username, profile.displayName, profile.about, profile.avatarHash]);
+}
+
+/**
+ * Add a user-profile facet for a snapshot, or update the user's existing one.
+ * Only fields present in the snapshot overwrite stored attributes, so partial
+ * snapshots (e.g. just a sourceName from an envelope) are safe to apply.
+ * Profiles still keyed by phone number are moved to the UUID key.
+ *
+ * @param fallbackName Display name for a new facet when the snapshot has none
+ */
+export function upsertProfileFacet(state: ReadonlyVEILState, profile: SignalProfileSnapshot, fallbackName?: string): VEILDelta[] {
+  const identity: SenderIdentity = { sourceUuid: profile.uuid, sourceNumber: profile.number, username: profile.username };
+  const existing = findProfileFacet(state, identity);
+  const facetId = profileFacetId(identity);
+
+  const updates: Record<string, any> = {
+    uuid: profile.uuid,
+    phoneNumber: profile.number,
+    username: profile.username,
+    displayName: profile.displayName,
+    contactName: profile.contactName,
+    about: profile.about,
+    avatarHash: profile.avatarHash,
+    profileUpdatedAt: profile.profileUpdatedAt
+  };
+  for (const key of Object.keys(updates)) {
+    if (updates[key] === undefined) delete updates[key];
+  }
+
+  if (!existing) {
+    const displayName = profile.displayName || fallbackName || profile.username || profile.number || profile.uuid;
+    return [{
+      type: 'addFacet',
+      facet: {
+        id: facetId,
+        type: 'user-profile',
+        content: displayName,
+        aspects: {
+          hasState: true,
+          temporal: 'persistent'
+        },
+        attributes: {
+          ...updates,
+          displayName,
+          platform: 'signal'
+        }
+      }
+    }];
+  }
+
+  const attributes = { ...existing.attributes, ...updates };
+  const content = attributes.displayName || existing.content;
+
+  if (profile.uuid && existing.id !== facetId) {
+    // Profile was created under a phone-keyed ID before UUID keying - move it to the UUID key
+    console.log(`[SignalProfiles] Migrating profile ${existing.id} to ${facetId}`);
+    return [
+      { type: 'removeFacet', id: existing.id },
+      { type: 'addFacet', facet: { ...existing, id: facetId, content, attributes } }
+    ];
+  }
+
+  if (content === existing.content && JSON.stringify(attributes) === JSON.stringify(existing.attributes)) {
+    return [];
+  }
+
+  return [{
+    type: 'rewriteFacet',
+    id: existing.id,
+    changes: { content, attributes }
+  }];
+}
+
+/**
+ * Display name for a mentioned user or bot - bot names first, then
+ * user-profile facets, then the mention's own name if it isn't just an ID
+ */
+export function resolveMentionName(
+  state: ReadonlyVEILState,
+  bots: BotIdentities,
+  mention: { uuid?: string; number?: string; name?: string }
+): string | undefined {
+  const mentionedBot = findBotPhone(bots, mention.uuid) || findBotPhone(bots, mention.number);
+  if (mentionedBot && bots.botNames.get(mentionedBot)) {
+    return bots.botNames.get(mentionedBot);
+  }
+
+  const profileFacet = findProfileFacet(state, { sourceUuid: mention.uuid, sourceNumber: mention.number });
+  const profileName = profileFacet?.attributes?.displayName || profileFacet?.content;
+  if (profileName) {
+    return profileName;
+  }
+
+  // mention.name often contains the phone number or UUID
+  if (mention.name && !isUuid(mention.name) && !/^\+?\d+$/.test(mention.name)) {
+    return mention.name;
+  }
+
+  return undefined;
+}
+
+/**
+ * Name -> mention author for every bot and known user. Authors are UUIDs
+ * where known, so users who hide their number can still be mentioned.
+ */
+export function mentionTargets(state: ReadonlyVEILState, botNames: Map<string, string>, botUuids?: Map<string, string>): Map<string, string> {
+  const targets = new Map<string, string>();
+
+  for (const [phone, name] of botNames) {
+    targets.set(name, botUuids?.get(phone) || phone);
+  }
+
+  // Add user display names from user-profile facets
+  for (const facet of state.facets.values()) {
+    if (facet.type === 'user-profile') {
+      const displayName = facet.attributes?.displayName || facet.content;
+      const author = facet.attributes?.uuid || facet.attributes?.phoneNumber;
+      if (displayName && author) {
+        targets.set(displayName, author);
+      }
+    }
+  }
+
+  return targets;
+}
@@ -7,12 +7,38 @@
 
 import { BaseReceptor } from 'connectome-ts';
 import type { SpaceEvent, VEILDelta, ReadonlyVEILState } from 'connectome-ts';
+import type { GroupDirectory } from './group-directory.js';
+import { catchUpStartedAt } from './catch-up-receptor.js';
+import { upsertProfileFacet, resolveMentionName } from './signal-profiles.js';
+import {
+  senderKey,
+  senderAliases,
+  messageFacetId,
+  findMessageFacet,
+  findProfileFacet,
+  findBotPhone,
+  findBotSender,
+  resolveDmStream
+} from './message-identity.js';
+import type {
+  SignalMessagePayload,
+  SignalReactionPayload,
+  SignalEditPayload,
+  SignalDeletePayload,
+  SignalSentPayload,
+  SignalReceiptPayload,
+  SignalTypingPayload,
+  SignalGroupUpdatePayload,
+  SignalProfileUpdatePayload
+} from './signal-types.js';
 
 export interface SignalReceptorConfig {
   // Map of bot phone numbers to their UUIDs
   botUuids: Map<string, string>;
   // Map of bot phone numbers to their names
   botNames: Map<string, string>;
+  // Map of bot phone numbers to their Signal usernames, so bots can be recognised by username
+  botUsernames?: Map<string, string>;
   // Group chat privacy mode: 'opt-in' (only respond when mentioned) or 'opt-out' (always respond unless opted out)
   groupPrivacyMode?: 'opt-in' | 'opt-out';
   // Random reply chance (0-100): percentage chance to randomly reply in group chats
@@ -23,6 +49,99 @@ export interface SignalReceptorConfig {
   maxConversationFrames?: number;
   // Maximum frames to keep in memory (rest are on disk)
   maxMemoryFrames?: number;
+  // Activate a bot when a human reacts to one of its messages (default: false)
+  activateOnReactionToBot?: boolean;
+  // How remote deletes are applied: 'remove' drops the message facet, 'tombstone' keeps a placeholder (default)
+  deleteMode?: 'remove' | 'tombstone';
+  // Shared group metadata cache - names group streams before SignalGroupReceptor has seen the group
+  groupDirectory?: GroupDirectory;
+  // Backlog received after a reconnect is stored but doesn't activate bots once older than this (ms, 0 disables, default 10 minutes)
+  staleBacklogAge?: number;
+}
+
+/**
+ * Resolve a sender's display name - prefer sourceName from envelope, then cached profile, then source
+ */
+function resolveDisplayName(state: ReadonlyVEILState, source: string, sourceUuid?: string, sourceName?: string): string {
+  if (sourceName) return sourceName;
+
+  const profileFacet = findProfileFacet(state, { source, sourceUuid });
+  return profileFacet?.attributes?.displayName || profileFacet?.content || source;
+}
+
+/**
+ * Stream-definition label and group attributes for a group conversation,
+ * taken from the group facet attributes maintained by SignalGroupReceptor
+ * (or a GroupDirectory snapshot, which has no member display names)
+ */
+function groupStreamDetails(conversationKey: string, group: any): { content: string; attributes: Record<string, any> } {
+  return {
+    content: group?.name || `Group ${conversationKey.substring(0, 20)}...`,
+    attributes: {
+      groupName: group?.name,
+      description: group?.description,
+      memberNames: group?.memberDetails?.map((member: any) => member.displayName)
+    }
+  };
+}
+
+/**
+ * Map afferent attachment payloads to facet attachment entries.
+ * Stored attachments are referenced by hash/URI (load bytes with loadAttachmentData);
+ * inline base64 only exists when no attachment store is configured. Inline data
+ * and derived content are kept in attributes only rather than duplicated into
+ * state metadata.
+ */
+function toAttachmentEntries(attachments: any[] | undefined, includeData: boolean): any[] | undefined {
+  return attachments?.map((a: any) => ({
+    contentType: a.contentType,
+    filename: a.filename,
+    id: a.id,
+    size: a.size,
+    width: a.width,
+    height: a.height,
+    originalContentType: a.originalContentType,  // set when the image pipeline re-encoded the image
+    originalSize: a.originalSize,
+    processedSize: a.processedSize,
+    hash: a.hash,
+    uri: a.uri,
+    data: includeData ? a.data : undefined,  // base64 encoded image data (if downloaded and not stored)
+    derived: includeData ? a.derived : undefined  // text/transcript/metadata from attachment processors
+  }));
+}
+
+/**
+ * Replace U+FFFC (Object Replacement Character) with actual mention names
+ * Signal uses FFFC as placeholder at specific positions, we need to restore @name for context
+ */
+function renderMentions(message: string, mentions: any[] | undefined, config: SignalReceptorConfig, state: ReadonlyVEILState): string {
+  let processedMessage = message || '';
+  if (mentions && mentions.length > 0) {
+    // Sort mentions by position descending so we can replace from end to start
+    // (this prevents position shifts from affecting subsequent replacements)
+    const sortedMentions = [...mentions].sort((a: any, b: any) => (b.start ?? 0) - (a.start ?? 0));
+
+    for (const mention of sortedMentions) {
+      // Find the display name for this mention (bot names, then synced user profiles)
+      const mentionName = resolveMentionName(state, config, mention);
+
+      // Use position-based replacement for accuracy
+      const start = mention.start ?? 0;
+      const length = mention.length ?? 1;
+      const replacement = `@${mentionName || 'user'}`;
+
+      // Only replace if we have valid position and the character at that position is FFFC
+      if (start >= 0 && start < processedMessage.length) {
+        const before = processedMessage.slice(0, start);
+        const after = processedMessage.slice(start + length);
+        processedMessage = before + replacement + after;
+      }
+    }
+  }
+  // Strip any remaining FFFC characters (edge cases)
+  processedMessage = processedMessage.replace(/\uFFFC/g, '').trim();
+
+  return processedMessage;
 }
 
 /**
@@ -74,12 +193,120 @@ export class SignalMessageReceptor extends BaseReceptor {
     return { command, args };
   }
 
+  /**
+   * Store a message the operator sent as the bot from a linked device.
+   * It is part of the conversation (so always stored) but is the bot's own
+   * speech, so it never triggers activations.
+   */
+  private storeOutgoingMessage(payload: SignalMessagePayload, state: ReadonlyVEILState): VEILDelta[] {
+    const { botPhone, source, sourceUuid, groupId, destination, destinationUuid, message, attachments, mentions, quote, timestamp } = payload;
+
+    // Messages without a destination are notes to self
+    const isGroupChat = !!groupId;
+    const { conversationKey, streamId } = isGroupChat
+      ? { conversationKey: groupId, streamId: `signal-stream-${groupId}` }
+      : resolveDmStream(state, botPhone, {
+          sourceUuid: destinationUuid,
+          sourceNumber: destination,
+          source: destination || source
+        });
+
+    if (findMessageFacet(state, senderAliases(payload), timestamp)) {
+      return [];
+    }
+    const messageId = messageFacetId(payload, timestamp);
+
+    const botName = this.config.botNames.get(botPhone) || botPhone;
+    console.log(`[SignalMessageReceptor] Storing operator message sent as ${botName} to ${conversationKey}`);
+
+    const deltas: VEILDelta[] = [];
+
+    deltas.push({
+      type: 'addFacet',
+      facet: {
+        id: messageId,
+        type: 'event',
+        displayName: botName,
+        streamId,
+        aspects: {
+          temporal: 'persistent'
+        },
+        state: {
+          source: botName,
+          eventType: 'signal:message',
+          metadata: {
+            source,
+            sourceUuid,
+            conversationKey,
+            isGroupChat,
+            botPhone,
+            timestamp,
+            isOutgoing: true
+          }
+        },
+        attributes: {
+          source,
+          sourceUuid,
+          destination,
+          conversationKey,
+          isGroupChat,
+          botPhone,
+          timestamp,
+          isOutgoing: true,
+          mentions,
+          quote,
+          attachments: toAttachmentEntries(attachments, true)
+        },
+        children: [{
+          id: `speech-${messageId}`,
+          type: 'speech',
+          content: renderMentions(message, mentions, this.config, state),
+          streamId,
+          state: {
+            speakerId: `signal:operator:${botPhone}`,
+            speaker: botName,
+            isOperator: true
+          }
+        }]
+      }
+    });
+
+    if (!state.facets.get(streamId)) {
+      const group = isGroupChat
+        ? groupStreamDetails(conversationKey, (state.facets.get(`signal-group-${conversationKey}`) as any)?.attributes || this.config.groupDirectory?.peek(conversationKey))
+        : undefined;
+
+      deltas.push({
+        type: 'addFacet',
+        facet: {
+          id: streamId,
+          type: 'stream-definition',
+          content: group ? group.content : `DM with ${resolveDisplayName(state, conversationKey)}`,
+          aspects: {
+            hasState: true,
+            temporal: 'persistent'
+          },
+          attributes: {
+            streamType: 'signal',
+            conversationKey,
+            isGroupChat,
+            botPhone,
+            ...group?.attributes
+          }
+        }
+      });
+    }
+
+    return deltas;
+  }
+
   transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
-    const payload = event.payload as any;
+    const payload = event.payload as SignalMessagePayload;
     const {
       botPhone,
       source,
       sourceUuid,
+      sourceNumber,
       sourceName, // Signal display name from envelope
       groupId,
       message,
@@ -87,9 +314,14 @@ export class SignalMessageReceptor extends BaseReceptor {
       mentions,
       quote,
       timestamp,
+      isOutgoing, // Sent as the bot account from a linked device
       __reprocessed // Flag from consistency checker for re-processed messages
     } = payload;
 
+    if (isOutgoing) {
+      return this.storeOutgoingMessage(payload, state);
+    }
+
     console.log(`[SignalMessageReceptor] Processing message from ${source}: "${message}" (botPhone: ${botPhone})`);
     console.log(`[SignalMessageReceptor] mentions value:`, mentions, `type:`, typeof mentions, `length:`, mentions?.length);
     if (mentions && mentions.length > 0) {
@@ -102,43 +334,33 @@ export class SignalMessageReceptor extends BaseReceptor {
     const deltas: VEILDelta[] = [];
 
     // Check if this message is from a bot
-    const isBotMessage = this.config.botUuids.has(source) ||
-                         (sourceUuid && Array.from(this.config.botUuids.values()).includes(sourceUuid));
+    const isBotMessage = !!findBotSender(this.config, payload);
 
     // Note: We no longer skip bot messages entirely here.
     // Bot messages don't need to be stored (handled by agent facets),
     // but we still need to check if THIS bot was mentioned by another bot.
 
     // Determine conversation key
-    const conversationKey = groupId || source;
     const isGroupChat = !!groupId;
     // For DMs, include botPhone in streamId so each bot has its own stream with the user
+    // (keyed by UUID, or an existing phone-keyed stream from before UUID keying)
     // For groups, just use the groupId since all bots share the same group conversation
-    const streamId = isGroupChat
-      ? `signal-stream-${conversationKey}`
-      : `signal-stream-${botPhone}-${conversationKey}`;
+    const { conversationKey, streamId } = isGroupChat
+      ? { conversationKey: groupId, streamId: `signal-stream-${groupId}` }
+      : resolveDmStream(state, botPhone, payload);
 
-    // Check if message already exists (deduplication)
+    // Check if message already exists (deduplication), including under a legacy phone-keyed ID
     // Note: We still need to check if THIS bot should respond, even if message facet exists
-    const messageId = `signal-msg-${source}-${timestamp}`;
-    const existingMessage = state.facets.get(messageId);
+    const existingMessage = findMessageFacet(state, senderAliases(payload), timestamp);
+    const messageId: string = existingMessage?.id || messageFacetId(payload, timestamp);
     const messageAlreadyExists = !!existingMessage;
 
     // Look up cached display name from VEIL state
-    const profileFacet = Array.from(state.facets.values())
-      .find(f => f.type === 'user-profile' &&
-                 (f.attributes?.phoneNumber === source || f.attributes?.uuid === sourceUuid));
-
-    // Extract display name - prefer sourceName from envelope, then cached profile, then source
-    let displayName = sourceName || source;
-
-    // If no sourceName from envelope, use cached profile
-    if (!sourceName) {
-      if (profileFacet?.attributes?.displayName) {
-        displayName = profileFacet.attributes.displayName;
-      } else if (profileFacet?.content) {
-        displayName = profileFacet.content;
-      }
+    const displayName = resolveDisplayName(state, source, sourceUuid, sourceName);
+
+    // Keep the sender's user-profile facet current: created on first sight, renamed when sourceName changes
+    if (!isBotMessage && (sourceUuid || sourceNumber)) {
+      deltas.push(...upsertProfileFacet(state, { uuid: sourceUuid || undefined, number: sourceNumber, displayName: sourceName || undefined }, displayName));
     }
 
     // For group chats with deduplication, we need to check ALL bots for mentions/quotes
@@ -147,19 +369,17 @@ export class SignalMessageReceptor extends BaseReceptor {
 
     // Helper to check if a specific bot was mentioned
     const isBotMentioned = (phone: string): boolean => {
-      const uuid = this.config.botUuids.get(phone);
-      return mentions?.some((m: any) => {
-        const uuidMatch = uuid && m.uuid === uuid;
-        const numberMatch = m.number === phone;
-        return uuidMatch || numberMatch;
-      }) || false;
+      return mentions?.some((m: any) =>
+        findBotPhone(this.config, m.uuid) === phone || findBotPhone(this.config, m.number) === phone
+      ) || false;
     };
 
     // Helper to check if a specific bot was quoted
     const isBotQuoted = (phone: string): boolean => {
       if (!quote) return false;
-      const uuid = this.config.botUuids.get(phone);
-      return (uuid && quote.authorUuid === uuid) || quote.author === phone;
+      return findBotPhone(this.config, quote.authorUuid) === phone ||
+             findBotPhone(this.config, quote.authorNumber) === phone ||
+             findBotPhone(this.config, quote.author) === phone;
     };
 
     // For backward compatibility and DMs, check the payload's botPhone
@@ -206,6 +426,7 @@ export class SignalMessageReceptor extends BaseReceptor {
               args,
               botPhone: mentionedBotPhone,
               source,
+              sourceUuid,
               groupId,
               timestamp,
               currentConfig: {
@@ -230,67 +451,7 @@ export class SignalMessageReceptor extends BaseReceptor {
     let storeInHistory = true;
 
     // Replace U+FFFC (Object Replacement Character) with actual mention names
-    // Signal uses FFFC as placeholder at specific positions, we need to restore @name for context
-    let processedMessage = message;
-    if (mentions && mentions.length > 0) {
-      // Sort mentions by position descending so we can replace from end to start
-      // (this prevents position shifts from affecting subsequent replacements)
-      const sortedMentions = [...mentions].sort((a: any, b: any) => (b.start ?? 0) - (a.start ?? 0));
-
-      for (const mention of sortedMentions) {
-        // Find the display name for this mention
-        let mentionName: string | undefined;
-
-        // First try to find bot name by UUID
-        if (mention.uuid) {
-          for (const [phone, uuid] of this.config.botUuids.entries()) {
-            if (uuid === mention.uuid) {
-              mentionName = this.config.botNames.get(phone);
-              break;
-            }
-          }
-        }
-
-        // If not a bot, try to find by phone number
-        if (!mentionName && mention.number) {
-          mentionName = this.config.botNames.get(mention.number);
-        }
-
-        // For non-bot users, we need a display name
-        // The mention.name field often contains phone/UUID, so look up profile
-        if (!mentionName) {
-          // Try to get display name from profile facets
-          const profileFacetId = `signal-profile-${mention.uuid || mention.number}`;
-          const profileFacet = state.facets.get(profileFacetId);
-          if (profileFacet) {
-            mentionName = profileFacet.attributes?.displayName || profileFacet.content;
-          }
-        }
-
-        // Fall back to mention.name only if it looks like a display name (not UUID/phone)
-        if (!mentionName && mention.name) {
-          const isUuid = /^[0-9a-f-]{36}$/i.test(mention.name);
-          const isPhone = /^\+?\d+$/.test(mention.name);
-          if (!isUuid && !isPhone) {
-            mentionName = mention.name;
-          }
-        }
-
-        // Use position-based replacement for accuracy
-        const start = mention.start ?? 0;
-        const length = mention.length ?? 1;
-        const replacement = `@${mentionName || 'user'}`;
-
-        // Only replace if we have valid position and the character at that position is FFFC
-        if (start >= 0 && start < processedMessage.length) {
-          const before = processedMessage.slice(0, start);
-          const after = processedMessage.slice(start + length);
-          processedMessage = before + replacement + after;
-        }
-      }
-    }
-    // Strip any remaining FFFC characters (edge cases)
-    processedMessage = processedMessage.replace(/\uFFFC/g, '').trim();
+    let processedMessage = renderMentions(message, mentions, this.config, state);
 
     // Bot messages are NOT stored in history (they're handled by agent facets)
     // But we still check for mentions to trigger responses
@@ -421,13 +582,7 @@ export class SignalMessageReceptor extends BaseReceptor {
               isGroupChat,
               botPhone,
               timestamp,
-              attachments: attachments?.map((a: any) => ({
-                contentType: a.contentType,
-                filename: a.filename,
-                id: a.id,
-                size: a.size,
-                data: a.data  // base64 encoded image data (if downloaded)
-              }))
+              attachments: toAttachmentEntries(attachments, false)
             }
           },
           attributes: {
@@ -439,51 +594,27 @@ export class SignalMessageReceptor extends BaseReceptor {
             timestamp,
             mentions,
             quote,
-            attachments: attachments?.map((a: any) => ({
-              contentType: a.contentType,
-              filename: a.filename,
-              id: a.id,
-              size: a.size,
-              data: a.data  // base64 encoded image data (if downloaded)
-            }))
+            attachments: toAttachmentEntries(attachments, true)
           },
           children: [speechFacet] // Speech nested inside message
         }
       });
 
-      // Create user-profile facet if this is the first time we've seen this user
-      if (!profileFacet && source !== botPhone) {
-        const profileId = `signal-profile-${sourceUuid || source}`;
-        deltas.push({
-          type: 'addFacet',
-          facet: {
-            id: profileId,
-            type: 'user-profile',
-            content: displayName,
-            aspects: {
-              hasState: true,
-              temporal: 'persistent'
-            },
-            attributes: {
-              phoneNumber: source,
-              uuid: sourceUuid,
-              displayName: displayName,
-              platform: 'signal'
-            }
-          }
-        });
-      }
-
       // Create stream reference for this conversation if it doesn't exist
       const existingStream = state.facets.get(streamId);
 
       if (!existingStream) {
+        // Group streams are named from the group facet, or the group directory until SignalGroupReceptor has seen the group
+        const group = isGroupChat
+          ? groupStreamDetails(conversationKey, (state.facets.get(`signal-group-${conversationKey}`) as any)?.attributes || this.config.groupDirectory?.peek(conversationKey))
+          : undefined;
+
         deltas.push({
           type: 'addFacet',
           facet: {
             id: streamId,
             type: 'stream-definition',
-            content: isGroupChat ? `Group ${groupId?.substring(0, 20)}...` : `DM with ${displayName}`,
+            content: group ? group.content : `DM with ${displayName}`,
             aspects: {
               hasState: true,
               temporal: 'persistent'
@@ -492,19 +623,31 @@ export class SignalMessageReceptor extends BaseReceptor {
               streamType: 'signal',
               conversationKey,
               isGroupChat,
-              botPhone
+              botPhone,
+              ...group?.attributes
             }
           }
         });
       }
     }
 
+    // Queued messages flushed after a reconnect (sent before the connection came up)
+    // stay in history, but bots shouldn't reply to them once they're stale
+    const staleBacklogAge = this.config.staleBacklogAge ?? 10 * 60 * 1000;
+    const connectedAt = catchUpStartedAt(state, botPhone);
+    const isStaleBacklog = staleBacklogAge > 0 && !__reprocessed &&
+                           connectedAt !== undefined && timestamp < connectedAt &&
+                           Date.now() - timestamp > staleBacklogAge;
+    if (isStaleBacklog) {
+      console.log(`[SignalMessageReceptor] Stale backlog message (${Math.round((Date.now() - timestamp) / 1000)}s old), not activating`);
+    }
+
     // Create agent activations
     // For DMs: activate the receiving bot
     // For group chats: activate ALL mentioned/quoted bots (with deduplication, one event serves all)
     if (!isGroupChat) {
       // DM - activate the receiving bot
-      if (shouldRespond) {
+      if (shouldRespond && !isStaleBacklog) {
         const activationId = `signal-activation-${botPhone}-${timestamp}`;
 
         // Skip if activation already exists (prevents duplicates from consistency checker re-processing)
@@ -580,7 +723,7 @@ export class SignalMessageReceptor extends BaseReceptor {
           }
         }
 
-        if (targetShouldRespond) {
+        if (targetShouldRespond && !isStaleBacklog) {
           const activationId = `signal-activation-${targetBotPhone}-${timestamp}`;
 
           // Skip if activation already exists (prevents duplicates from consistency checker re-processing)
@@ -664,65 +807,681 @@ export class SignalMessageReceptor extends BaseReceptor {
 }
 
 /**
- * SignalReceiptReceptor processes read receipts
+ * SignalReactionReceptor processes signal:reaction events
+ *
+ * Attaches reaction state to the reacted-to message facet. Reactions to bot
+ * messages have no message facet (bot speech lives in agent facets), so they
+ * are recorded as their own event facet and can optionally activate the bot.
  */
-export class SignalReceiptReceptor extends BaseReceptor {
-  topics = ['signal:receipt'];
+export class SignalReactionReceptor extends BaseReceptor {
+  topics = ['signal:reaction'];
+
+  private config: SignalReceptorConfig;
+
+  constructor(config: SignalReceptorConfig) {
+    super();
+    this.config = config;
+  }
 
   transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
-    const payload = event.payload as any;
-    const { botPhone, source, isRead, isDelivery, timestamps } = payload;
+    const payload = event.payload as SignalReactionPayload;
+    const {
+      botPhone,
+      source,
+      sourceUuid,
+      sourceName,
+      groupId,
+      emoji,
+      isRemove,
+      targetAuthor,
+      targetAuthorNumber,
+      targetAuthorUuid,
+      targetTimestamp,
+      timestamp
+    } = payload;
+    const { conversationKey, streamId } = groupId
+      ? { conversationKey: groupId, streamId: payload.streamId }
+      : resolveDmStream(state, botPhone, payload);
 
-    // Create ephemeral receipt facet
-    // This could be used by transforms to update message state
-    return [{
+    console.log(`[SignalReactionReceptor] ${source} ${isRemove ? 'removed' : 'reacted'} ${emoji} on ${targetAuthor}-${targetTimestamp}`);
+
+    const deltas: VEILDelta[] = [];
+    const displayName = resolveDisplayName(state, source, sourceUuid, sourceName);
+
+    // Message facets are keyed by UUID, or by phone number/envelope source for older messages
+    const targetFacet = findMessageFacet(state, [targetAuthorUuid, targetAuthorNumber, targetAuthor], targetTimestamp);
+
+    if (targetFacet) {
+      // Signal allows one reaction per sender per message - a new emoji replaces the old one
+      const existing: any[] = targetFacet.attributes?.reactions || [];
+      const others = existing.filter(r => senderKey(r) !== senderKey(payload));
+      const reactions = isRemove
+        ? others
+        : [...others, { emoji, source, sourceUuid, displayName, timestamp }];
+
+      deltas.push({
+        type: 'rewriteFacet',
+        id: targetFacet.id,
+        changes: {
+          attributes: { ...targetFacet.attributes, reactions }
+        }
+      });
+    }
+
+    // Find the bot that authored the reacted-to message (if any)
+    const targetBotPhone = findBotSender(this.config, {
+      sourceUuid: targetAuthorUuid,
+      sourceNumber: targetAuthorNumber,
+      source: targetAuthor
+    });
+    const isBotReaction = !!findBotSender(this.config, payload);
+
+    if (!targetBotPhone || isBotReaction) {
+      return deltas;
+    }
+
+    // One facet per sender and target message, so a changed reaction replaces the old one
+    const reactionFacetId = `signal-reaction-${senderKey(payload)}-${targetBotPhone}-${targetTimestamp}`;
+    if (state.facets.get(reactionFacetId)) {
+      deltas.push({ type: 'removeFacet', id: reactionFacetId });
+    }
+
+    if (isRemove) {
+      return deltas;
+    }
+
+    const botName = this.config.botNames.get(targetBotPhone);
+    deltas.push({
       type: 'addFacet',
       facet: {
-        id: `signal-receipt-${source}-${Date.now()}`,
-        type: 'receipt',
+        id: reactionFacetId,
+        type: 'event',
+        content: `${displayName} reacted ${emoji} to ${botName}'s message`,
+        displayName,
+        streamId,
         aspects: {
-          ephemeral: true
+          temporal: 'persistent'
+        },
+        state: {
+          source: displayName,
+          eventType: 'signal:reaction'
         },
         attributes: {
-          botPhone,
           source,
-          isRead,
-          isDelivery,
-          timestamps
+          sourceUuid,
+          emoji,
+          botPhone: targetBotPhone,
+          targetTimestamp,
+          timestamp
         }
       }
+    });
+
+    if (this.config.activateOnReactionToBot) {
+      const activationId = `signal-activation-${targetBotPhone}-${timestamp}`;
+
+      if (!state.facets.get(activationId)) {
+        console.log(`[SignalReactionReceptor] Creating agent-activation for reaction: botPhone ${targetBotPhone}, targetAgent: ${botName}`);
+
+        deltas.push({
+          type: 'addFacet',
+          facet: {
+            id: activationId,
+            type: 'agent-activation',
+            aspects: { ephemeral: true },
+            state: {
+              targetAgent: botName,
+              streamRef: { streamId, elementId: 'space', elementPath: [] },
+              streamId,
+              conversationKey,
+              triggeredBy: reactionFacetId,
+              botPhone: targetBotPhone,
+              reason: 'reaction'
+            },
+            attributes: { streamId, conversationKey, triggeredBy: reactionFacetId, botPhone: targetBotPhone, reason: 'reaction' }
+          }
+        });
+      }
+    }
+
+    return deltas;
+  }
+}
+
+/**
+ * SignalEditReceptor processes signal:edit events
+ *
+ * Rewrites the nested speech facet of the original message so agents see the
+ * current text, keeping every previous version in the editHistory attribute.
+ */
+export class SignalEditReceptor extends BaseReceptor {
+  topics = ['signal:edit'];
+
+  private config: SignalReceptorConfig;
+
+  constructor(config: SignalReceptorConfig) {
+    super();
+    this.config = config;
+  }
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalEditPayload;
+    const { groupId, message, mentions, targetTimestamp, timestamp } = payload;
+
+    // Signal edits always reference the timestamp of the original message
+    const originalFacet: any = findMessageFacet(state, senderAliases(payload), targetTimestamp);
+    const messageId: string = originalFacet?.id || messageFacetId(payload, targetTimestamp);
+
+    if (!originalFacet) {
+      // Not stored (privacy mode, bot message, or before our history began)
+      console.log(`[SignalEditReceptor] No stored message ${messageId}, ignoring edit`);
+      return [];
+    }
+
+    let editedContent = renderMentions(message, mentions, this.config, state);
+
+    // Apply the same "." prefix rules as the original message
+    if (groupId && editedContent.startsWith('.')) {
+      if ((this.config.groupPrivacyMode || 'opt-in') === 'opt-out') {
+        // User opted the edited message out of history
+        console.log(`[SignalEditReceptor] Edit opted out of history, removing ${messageId}`);
+        return [{ type: 'removeFacet', id: messageId }];
+      }
+      editedContent = editedContent.substring(1).trim();
+    }
+
+    // The nested speech facet is also stored under its own ID - read and rewrite it there
+    const children: any[] = originalFacet.children || [];
+    const speechChild = children.find(child => child.type === 'speech');
+    const speechId: string = speechChild?.id || `speech-${messageId}`;
+    const speechFacet: any = state.facets.get(speechId) || speechChild;
+    const previousContent = speechFacet?.content ?? '';
+
+    if (previousContent === editedContent) {
+      return [];
+    }
+
+    const attributes = originalFacet.attributes || {};
+    const editHistory = [
+      ...(attributes.editHistory || []),
+      {
+        content: previousContent,
+        timestamp: attributes.lastEditedAt || attributes.timestamp
+      }
+    ];
+
+    console.log(`[SignalEditReceptor] Message ${messageId} edited (version ${editHistory.length + 1})`);
+
+    const speechState = { ...speechFacet?.state, edited: true };
+    const deltas: VEILDelta[] = [{
+      type: 'rewriteFacet',
+      id: messageId,
+      changes: {
+        attributes: {
+          ...attributes,
+          mentions,
+          edited: true,
+          lastEditedAt: timestamp,
+          editHistory
+        },
+        children: children.map(child => child === speechChild
+          ? { ...child, content: editedContent, state: speechState }
+          : child)
+      }
     }];
+
+    if (speechFacet) {
+      deltas.push({
+        type: 'rewriteFacet',
+        id: speechId,
+        changes: { content: editedContent, state: speechState }
+      });
+    }
+
+    return deltas;
+  }
+}
+
+/**
+ * SignalDeleteReceptor processes signal:delete events
+ *
+ * Honors "delete for everyone" by removing the message facet (and its nested
+ * speech facet) or replacing its content with a placeholder.
+ */
+export class SignalDeleteReceptor extends BaseReceptor {
+  topics = ['signal:delete'];
+
+  private config: SignalReceptorConfig;
+
+  constructor(config: SignalReceptorConfig) {
+    super();
+    this.config = config;
+  }
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalDeletePayload;
+    const { targetTimestamp, timestamp } = payload;
+
+    // Only the original sender can delete, so the sender is part of the facet ID
+    const originalFacet: any = findMessageFacet(state, senderAliases(payload), targetTimestamp);
+    const messageId: string = originalFacet?.id || messageFacetId(payload, targetTimestamp);
+
+    if (!originalFacet) {
+      console.log(`[SignalDeleteReceptor] No stored message ${messageId}, ignoring delete`);
+      return [];
+    }
+
+    const deleteMode = this.config.deleteMode || 'tombstone';
+    console.log(`[SignalDeleteReceptor] Message ${messageId} deleted by sender (mode: ${deleteMode})`);
+
+    // The nested speech facet is also stored under its own ID - apply the delete there too
+    const children: any[] = originalFacet.children || [];
+    const speechChild = children.find(child => child.type === 'speech');
+    const speechId: string = speechChild?.id || `speech-${messageId}`;
+    const speechFacet: any = state.facets.get(speechId);
+
+    if (deleteMode === 'remove') {
+      const deltas: VEILDelta[] = [{ type: 'removeFacet', id: messageId }];
+      if (speechFacet) {
+        deltas.push({ type: 'removeFacet', id: speechId });
+      }
+      return deltas;
+    }
+
+    // Tombstone: keep the message in place but drop everything the user wrote
+    const {
+      mentions: _mentions,
+      quote: _quote,
+      attachments: _attachments,
+      editHistory: _editHistory,
+      ...attributes
+    } = originalFacet.attributes || {};
+    const { attachments: _metadataAttachments, ...metadata } = originalFacet.state?.metadata || {};
+    const speechState = { ...(speechFacet || speechChild)?.state, deleted: true };
+
+    const deltas: VEILDelta[] = [{
+      type: 'rewriteFacet',
+      id: messageId,
+      changes: {
+        state: { ...originalFacet.state, metadata },
+        attributes: {
+          ...attributes,
+          deleted: true,
+          deletedAt: timestamp
+        },
+        children: children.map(child => child === speechChild
+          ? { ...child, content: '[message deleted]', state: speechState }
+          : child)
+      }
+    }];
+
+    if (speechFacet) {
+      deltas.push({
+        type: 'rewriteFacet',
+        id: speechId,
+        changes: { content: '[message deleted]', state: speechState }
+      });
+    }
+
+    return deltas;
+  }
+}
+
+// Delivery states in order of progression - a receipt never moves a message backwards
+const DELIVERY_STATUS_ORDER = ['sent', 'delivered', 'read', 'viewed'];
+
+/**
+ * SignalReceiptReceptor tracks delivery state of messages the bots sent
+ *
+ * signal:sent (from SignalSpeechEffector) tags the speech facet with Signal's
+ * sent timestamps; signal:receipt batches (from SignalAfferent) are then
+ * matched by timestamp to update delivery/read status on that facet.
+ */
+export class SignalReceiptReceptor extends BaseReceptor {
+  topics = ['signal:sent', 'signal:receipt'];
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    if (event.topic === 'signal:sent') {
+      const { facetId, botPhone, timestamps } = event.payload as SignalSentPayload;
+      const speechFacet: any = state.facets.get(facetId);
+      if (!speechFacet) return [];
+
+      return [{
+        type: 'rewriteFacet',
+        id: facetId,
+        changes: {
+          attributes: {
+            ...speechFacet.attributes,
+            botPhone,
+            signalTimestamps: timestamps,
+            deliveryStatus: 'sent'
+          }
+        }
+      }];
+    }
+
+    const { botPhone, receipts } = event.payload as SignalReceiptPayload;
+
+    // Index sent facets of this bot by Signal timestamp
+    const facetsByTimestamp = new Map<number, any>();
+    for (const facet of state.facets.values() as Iterable<any>) {
+      if (facet.attributes?.botPhone !== botPhone || !facet.attributes?.signalTimestamps) continue;
+      for (const ts of facet.attributes.signalTimestamps) {
+        facetsByTimestamp.set(ts, facet);
+      }
+    }
+
+    // Accumulate updates per facet - one batch may carry several receipts for the same message
+    const updates = new Map<string, any>();
+    for (const receipt of receipts || []) {
+      const status = receipt.type === 'delivery' ? 'delivered' : receipt.type;
+      const recipientField = status === 'delivered' ? 'deliveredTo' : status === 'read' ? 'readBy' : 'viewedBy';
+
+      for (const ts of receipt.timestamps) {
+        const facet = facetsByTimestamp.get(ts);
+        if (!facet) continue;
+
+        const attributes = updates.get(facet.id) || { ...facet.attributes };
+        const recipients: string[] = attributes[recipientField] || [];
+        if (!recipients.includes(receipt.source)) {
+          attributes[recipientField] = [...recipients, receipt.source];
+        }
+        if (DELIVERY_STATUS_ORDER.indexOf(status) > DELIVERY_STATUS_ORDER.indexOf(attributes.deliveryStatus)) {
+          attributes.deliveryStatus = status;
+        }
+        updates.set(facet.id, attributes);
+      }
+    }
+
+    if (updates.size > 0) {
+      console.log(`[SignalReceiptReceptor] Updating delivery status on ${updates.size} message(s)`);
+    }
+
+    return Array.from(updates.entries()).map(([id, attributes]) => ({
+      type: 'rewriteFacet' as const,
+      id,
+      changes: { attributes }
+    }));
   }
 }
 
 /**
  * SignalTypingReceptor processes typing indicators
+ *
+ * Maintains a single typing-indicator facet per stream listing who is
+ * currently typing. Entries carry an expiry so a missed STOPPED does not
+ * leave someone "typing" forever.
  */
 export class SignalTypingReceptor extends BaseReceptor {
   topics = ['signal:typing'];
 
   transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
-    const payload = event.payload as any;
-    const { botPhone, source, groupId, action } = payload;
+    const payload = event.payload as SignalTypingPayload;
+    const { botPhone, source, sourceUuid, sourceName, groupId, action, expiresAt } = payload;
+
+    const { conversationKey, streamId } = groupId
+      ? { conversationKey: groupId, streamId: payload.streamId }
+      : resolveDmStream(state, botPhone, payload);
+    const facetId = `signal-typing-${streamId}`;
+    const existing: any = state.facets.get(facetId);
+    const now = event.timestamp;
+
+    // Drop this sender's previous entry and any entries that have expired
+    const typing: any[] = (existing?.attributes?.typing || [])
+      .filter((entry: any) => senderKey(entry) !== senderKey(payload) && entry.expiresAt > now);
+
+    if (action === 'STARTED') {
+      typing.push({
+        source,
+        sourceUuid,
+        displayName: resolveDisplayName(state, source, sourceUuid, sourceName),
+        since: now,
+        expiresAt
+      });
+    }
 
-    const conversationKey = groupId || source;
+    if (typing.length === 0) {
+      return existing ? [{ type: 'removeFacet', id: facetId }] : [];
+    }
+
+    const names = typing.map(entry => entry.displayName);
+    const content = `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} typing...`;
+    const attributes = { botPhone, streamId, conversationKey, typing };
+
+    if (existing) {
+      return [{
+        type: 'rewriteFacet',
+        id: facetId,
+        changes: { content, attributes }
+      }];
+    }
 
-    // Create ephemeral typing indicator facet
     return [{
       type: 'addFacet',
       facet: {
-        id: `signal-typing-${conversationKey}-${source}`,
+        id: facetId,
         type: 'typing-indicator',
+        content,
+        streamId,
         aspects: {
-          ephemeral: true
+          hasState: true
         },
-        attributes: {
-          botPhone,
-          source,
-          conversationKey,
-          action // 'STARTED' or 'STOPPED'
-        }
+        attributes
       }
     }];
   }
 }
+
+/**
+ * SignalGroupReceptor processes signal:group-update events
+ *
+ * Maintains one persistent group facet per conversationKey (name,
+ * description, members and admins) and adds short system events to the
+ * stream describing what changed, e.g. "Alice joined the group". The first
+ * snapshot of a group only creates the facet - there is nothing to diff yet -
+ * and periodic REFRESH snapshots update facets without adding events, since
+ * nobody is known to have made the change. The group's stream-definition
+ * facet is kept in sync with its name, description and members.
+ */
+export class SignalGroupReceptor extends BaseReceptor {
+  topics = ['signal:group-update'];
+
+  private config: SignalReceptorConfig;
+
+  constructor(config: SignalReceptorConfig) {
+    super();
+    this.config = config;
+  }
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalGroupUpdatePayload;
+    const { botPhone, source, sourceUuid, sourceName, groupId, updateType, revision, group, timestamp, streamId } = payload;
+
+    if (!groupId) return [];
+
+    const conversationKey = groupId;
+    const facetId = `signal-group-${conversationKey}`;
+    const existing: any = state.facets.get(facetId);
+    const previous = existing?.attributes;
+    // REFRESH snapshots have no actor, but they never produce change events either
+    const actorName = source ? resolveDisplayName(state, source, sourceUuid, sourceName) : 'Someone';
+    const memberName = (member: string) =>
+      this.config.botNames.get(findBotPhone(this.config, member) || member) || resolveDisplayName(state, member, member);
+
+    // Without a fresh snapshot we can still apply a QUIT to what we already know
+    let snapshot = group;
+    if (!snapshot && previous) {
+      snapshot = {
+        ...previous,
+        members: updateType === 'QUIT'
+          ? previous.members.filter((m: string) => m !== source && m !== sourceUuid)
+          : previous.members,
+        admins: updateType === 'QUIT'
+          ? previous.admins.filter((m: string) => m !== source && m !== sourceUuid)
+          : previous.admins
+      };
+    }
+
+    const deltas: VEILDelta[] = [];
+    const changes: string[] = [];
+
+    if (updateType === 'REFRESH' && previous && snapshot &&
+        JSON.stringify([snapshot.name, snapshot.description, snapshot.members, snapshot.admins]) ===
+        JSON.stringify([previous.name, previous.description, previous.members, previous.admins])) {
+      return []; // Another bot already reported this snapshot
+    }
+
+    if (updateType === 'REFRESH') {
+      // Silent sync - facets only
+    } else if (previous && snapshot) {
+      const isActor = (member: string) => member === source || member === sourceUuid;
+
+      for (const member of snapshot.members) {
+        if (previous.members.includes(member)) continue;
+        changes.push(isActor(member)
+          ? `${memberName(member)} joined the group`
+          : `${actorName} added ${memberName(member)}`);
+      }
+      for (const member of previous.members) {
+        if (snapshot.members.includes(member)) continue;
+        changes.push(isActor(member)
+          ? `${memberName(member)} left the group`
+          : `${actorName} removed ${memberName(member)}`);
+      }
+      for (const admin of snapshot.admins) {
+        if (!previous.admins.includes(admin)) changes.push(`${memberName(admin)} is now an admin`);
+      }
+      for (const admin of previous.admins) {
+        if (!snapshot.admins.includes(admin) && snapshot.members.includes(admin)) {
+          changes.push(`${memberName(admin)} is no longer an admin`);
+        }
+      }
+      if (snapshot.name !== previous.name && snapshot.name) {
+        changes.push(`${actorName} renamed the group to "${snapshot.name}"`);
+      }
+      if (snapshot.description !== previous.description) {
+        changes.push(`${actorName} changed the group description`);
+      }
+      // Avatar and permission changes aren't visible in the snapshot
+      if (changes.length === 0 && updateType === 'UPDATE') {
+        changes.push(`${actorName} updated the group`);
+      }
+    } else if (updateType === 'QUIT') {
+      changes.push(`${actorName} left the group`);
+    }
+
+    if (snapshot) {
+      const members = snapshot.members.map((member: string) => ({
+        id: member,
+        displayName: memberName(member),
+        isAdmin: snapshot.admins.includes(member)
+      }));
+      const title = snapshot.name || `Group ${conversationKey.substring(0, 20)}...`;
+      const content = `${title} (${members.length} members): ${members.map((m: any) => m.displayName).join(', ')}`;
+      const attributes = {
+        groupId: conversationKey,
+        externalId: snapshot.externalId,
+        name: snapshot.name,
+        description: snapshot.description,
+        members: snapshot.members,
+        admins: snapshot.admins,
+        memberDetails: members,
+        revision: revision ?? previous?.revision,
+        streamId,
+        updatedAt: event.timestamp
+      };
+
+      console.log(`[SignalGroupReceptor] ${existing ? 'Updating' : 'Creating'} group facet: ${content.substring(0, 100)}`);
+
+      if (existing) {
+        deltas.push({
+          type: 'rewriteFacet',
+          id: facetId,
+          changes: { content, attributes }
+        });
+      } else {
+        deltas.push({
+          type: 'addFacet',
+          facet: {
+            id: facetId,
+            type: 'signal-group',
+            content,
+            aspects: {
+              hasState: true
+            },
+            attributes
+          }
+        });
+      }
+
+      const stream: any = state.facets.get(streamId);
+      if (stream) {
+        const details = groupStreamDetails(conversationKey, attributes);
+        deltas.push({
+          type: 'rewriteFacet',
+          id: streamId,
+          changes: {
+            content: details.content,
+            attributes: { ...stream.attributes, ...details.attributes }
+          }
+        });
+      }
+    }
+
+    changes.forEach((change, index) => {
+      const eventFacetId = `signal-group-event-${conversationKey}-${timestamp}-${index}`;
+      if (state.facets.get(eventFacetId)) return;
+
+      deltas.push({
+        type: 'addFacet',
+        facet: {
+          id: eventFacetId,
+          type: 'event',
+          content: change,
+          displayName: actorName,
+          streamId,
+          aspects: {
+            temporal: 'persistent'
+          },
+          state: {
+            source: actorName,
+            eventType: 'signal:group-update'
+          },
+          attributes: {
+            source,
+            sourceUuid,
+            groupId: conversationKey,
+            updateType,
+            botPhone,
+            timestamp
+          }
+        }
+      });
+    });
+
+    return deltas;
+  }
+}
+
+/**
+ * SignalProfileReceptor processes signal:profile-update events
+ *
+ * Upserts one user-profile facet per user from contact/profile syncs, so
+ * renamed users get their new name and users the bots never heard from can
+ * still be named in mentions.
+ */
+export class SignalProfileReceptor extends BaseReceptor {
+  topics = ['signal:profile-update'];
+
+  transform(event: SpaceEvent, state: ReadonlyVEILState): VEILDelta[] {
+    const payload = event.payload as SignalProfileUpdatePayload;
+    const deltas: VEILDelta[] = [];
+
+    for (const profile of payload.profiles || []) {
+      deltas.push(...upsertProfileFacet(state, profile));
+    }
+
+    console.log(`[SignalProfileReceptor] ${payload.profiles?.length || 0} profile(s) from ${payload.botPhone}, ${deltas.length} delta(s)`);
+    return deltas;
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * SignalRestClient - Typed client for the Signal CLI REST API
+ *
+ * One configured instance (base URL, timeouts, auth headers) is meant to be
+ * shared by every afferent, effector and group directory. Failed requests
+ * throw SignalApiError with a kind callers can act on, e.g. backing off when
+ * rate limited or surfacing untrusted identities to an operator.
+ */
+
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+
+export interface SignalRestClientConfig {
+  baseUrl: string; // e.g., 'http://localhost:8081'
+  timeout?: number; // Request timeout in milliseconds, default 30 seconds
+  authToken?: string; // Sent as "Authorization: Bearer <token>" (for REST APIs behind an auth proxy)
+  headers?: Record<string, string>; // Extra headers sent with every request
+}
+
+export type SignalApiErrorKind =
+  | 'rate-limited'
+  | 'untrusted-identity'
+  | 'not-found'
+  | 'unauthorized'
+  | 'bad-request'
+  | 'server'
+  | 'timeout'
+  | 'network';
+
+export class SignalApiError extends Error {
+  constructor(
+    message: string,
+    public kind: SignalApiErrorKind,
+    public endpoint: string,
+    public status?: number,
+    public retryAfter?: number, // milliseconds, when the API says how long to back off
+    public responseBody?: any
+  ) {
+    super(message);
+    this.name = 'SignalApiError';
+  }
+}
+
+export interface SignalMentionRequest {
+  start: number;
+  length: number;
+  author: string; // phone number or UUID
+}
+
+export interface SendMessageRequest {
+  number: string;
+  recipients: string[]; // phone numbers, UUIDs or external group IDs
+  message: string;
+  text_mode?: 'normal' | 'styled';
+  mentions?: SignalMentionRequest[];
+  base64_attachments?: string[];
+  quote_timestamp?: number;
+  quote_author?: string;
+  quote_message?: string;
+  edit_timestamp?: number;
+}
+
+export interface SendMessageResponse {
+  timestamp: string;
+}
+
+export interface RestGroup {
+  id: string; // external "group.…" ID
+  internal_id: string;
+  name: string;
+  description?: string;
+  members: string[];
+  admins: string[];
+  blocked: boolean;
+  pending_invites: string[];
+  pending_requests: string[];
+  invite_link: string;
+}
+
+export interface ReactionRequest {
+  recipient: string;
+  reaction: string;
+  target_author: string;
+  timestamp: number;
+}
+
+export interface ReceiptRequest {
+  receipt_type: 'read' | 'viewed';
+  recipient: string;
+  timestamp: number;
+}
+
+export interface UpdateProfileRequest {
+  name: string;
+  about?: string;
+  base64_avatar?: string;
+}
+
+export interface RestContact {
+  number: string;
+  uuid: string;
+  name: string;
+  profile_name: string;
+  username: string;
+  color: string;
+  blocked: boolean;
+  message_expiration: string;
+  note?: string;
+  profile?: {
+    given_name?: string;
+    family_name?: string;
+    about?: string;
+    has_avatar?: boolean;
+    last_updated_timestamp?: number;
+  };
+}
+
+export interface RestIdentity {
+  number: string;
+  uuid?: string;
+  status: string; // e.g. 'TRUSTED_VERIFIED', 'TRUSTED_UNVERIFIED', 'UNTRUSTED'
+  fingerprint: string;
+  safety_number: string;
+  added: string;
+}
+
+export interface TrustIdentityRequest {
+  trust_all_known_keys?: boolean;
+  verified_safety_number?: string;
+}
+
+/**
+ * Error bodies of arraybuffer requests (attachment downloads) arrive as bytes -
+ * decode them the way JSON responses are
+ */
+function decodeBody(data: any): any {
+  if (!Buffer.isBuffer(data) && !(data instanceof ArrayBuffer)) return data;
+
+  const text = Buffer.from(data as ArrayBuffer).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export class SignalRestClient {
+  private http: AxiosInstance;
+  private headers: Record<string, string>;
+
+  constructor(private config: SignalRestClientConfig) {
+    this.headers = {
+      ...config.headers,
+      ...(config.authToken ? { Authorization: `Bearer ${config.authToken}` } : {})
+    };
+    this.http = axios.create({
+      baseURL: config.baseUrl,
+      timeout: config.timeout ?? 30000,
+      headers: this.headers
+    });
+  }
+
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  /**
+   * Headers sent with every request - for connections made outside the client (e.g. the receive WebSocket)
+   */
+  getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+
+  // Messages
+
+  send(request: SendMessageRequest): Promise<SendMessageResponse> {
+    return this.request('POST', '/v2/send', { data: request });
+  }
+
+  /**
+   * Fetch pending envelopes (normal/native modes). The request waits up to
+   * `timeout` seconds on the server, so the client timeout is extended to match.
+   */
+  receive(number: string, timeout: number = 10): Promise<any[]> {
+    return this.request('GET', `/v1/receive/${encodeURIComponent(number)}`, {
+      params: { timeout },
+      timeout: (this.config.timeout ?? 30000) + timeout * 1000
+    });
+  }
+
+  // Groups
+
+  listGroups(number: string): Promise<RestGroup[]> {
+    return this.request('GET', `/v1/groups/${encodeURIComponent(number)}`);
+  }
+
+  getGroup(number: string, externalGroupId: string): Promise<RestGroup> {
+    return this.request('GET', `/v1/groups/${encodeURIComponent(number)}/${encodeURIComponent(externalGroupId)}`);
+  }
+
+  // Attachments
+
+  async getAttachment(attachmentId: string): Promise<Buffer> {
+    const data = await this.request<ArrayBuffer>('GET', `/v1/attachments/${encodeURIComponent(attachmentId)}`, {
+      responseType: 'arraybuffer'
+    });
+    return Buffer.from(data);
+  }
+
+  // Reactions
+
+  sendReaction(number: string, request: ReactionRequest): Promise<void> {
+    return this.request('POST', `/v1/reactions/${encodeURIComponent(number)}`, { data: request });
+  }
+
+  removeReaction(number: string, request: ReactionRequest): Promise<void> {
+    return this.request('DELETE', `/v1/reactions/${encodeURIComponent(number)}`, { data: request });
+  }
+
+  // Receipts
+
+  sendReceipt(number: string, request: ReceiptRequest): Promise<void> {
+    return this.request('POST', `/v1/receipts/${encodeURIComponent(number)}`, { data: request });
+  }
+
+  // Typing indicators
+
+  startTyping(number: string, recipient: string): Promise<void> {
+    return this.request('PUT', `/v1/typing-indicator/${encodeURIComponent(number)}`, { data: { recipient } });
+  }
+
+  stopTyping(number: string, recipient: string): Promise<void> {
+    return this.request('DELETE', `/v1/typing-indicator/${encodeURIComponent(number)}`, { data: { recipient } });
+  }
+
+  // Profiles and contacts
+
+  updateProfile(number: string, request: UpdateProfileRequest): Promise<void> {
+    return this.request('PUT', `/v1/profiles/${encodeURIComponent(number)}`, { data: request });
+  }
+
+  listContacts(number: string): Promise<RestContact[]> {
+    return this.request('GET', `/v1/contacts/${encodeURIComponent(number)}`);
+  }
+
+  async getContactAvatar(number: string, uuid: string): Promise<Buffer> {
+    const data = await this.request<ArrayBuffer>('GET', `/v1/contacts/${encodeURIComponent(number)}/${encodeURIComponent(uuid)}/avatar`, {
+      responseType: 'arraybuffer'
+    });
+    return Buffer.from(data);
+  }
+
+  // Identities
+
+  listIdentities(number: string): Promise<RestIdentity[]> {
+    return this.request('GET', `/v1/identities/${encodeURIComponent(number)}`);
+  }
+
+  trustIdentity(number: string, numberToTrust: string, request: TrustIdentityRequest = { trust_all_known_keys: true }): Promise<void> {
+    return this.request('PUT', `/v1/identities/${encodeURIComponent(number)}/trust/${encodeURIComponent(numberToTrust)}`, { data: request });
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    endpoint: string,
+    options: { data?: any; params?: Record<string, any>; timeout?: number; responseType?: 'json' | 'arraybuffer' } = {}
+  ): Promise<T> {
+    try {
+      const response = await this.http.request({ method, url: endpoint, ...options });
+      return response.data;
+    } catch (error) {
+      throw this.classify(error, `${method} ${endpoint}`);
+    }
+  }
+
+  /**
+   * Turn an axios failure into a SignalApiError
+   */
+  private classify(error: any, endpoint: string): SignalApiError {
+    if (!axios.isAxiosError(error)) {
+      return new SignalApiError(error instanceof Error ? error.message : String(error), 'network', endpoint);
+    }
+
+    const response = error.response;
+    if (!response) {
+      const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      return new SignalApiError(
+        `${endpoint} ${timedOut ? 'timed out' : `failed: ${error.message}`}`,
+        timedOut ? 'timeout' : 'network',
+        endpoint
+      );
+    }
+
+    const status = response.status;
+    const body = decodeBody(response.data);
+    const detail = typeof body === 'string' ? body : body?.error || JSON.stringify(body);
+    const message = `${endpoint} failed with HTTP ${status}${detail ? `: ${detail}` : ''}`;
+
+    // signal-cli reports untrusted identities as a generic 400/500 with this text
+    if (/untrusted identity/i.test(detail || '')) {
+      return new SignalApiError(message, 'untrusted-identity', endpoint, status, undefined, body);
+    }
+
+    if (status === 429 || /rate ?limit/i.test(detail || '')) {
+      const retryAfterHeader = Number(response.headers?.['retry-after']);
+      const retryAfter = Number.isFinite(retryAfterHeader) && retryAfterHeader > 0 ? retryAfterHeader * 1000 : undefined;
+      return new SignalApiError(message, 'rate-limited', endpoint, status, retryAfter, body);
+    }
+
+    const kind: SignalApiErrorKind =
+      status === 404 ? 'not-found' :
+      status === 401 || status === 403 ? 'unauthorized' :
+      status >= 500 ? 'server' :
+      'bad-request';
+
+    return new SignalApiError(message, kind, endpoint, status, undefined, body);
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * SignalTypes - Envelope model for signal-cli-rest-api and signal:* event payloads
+ *
+ * Envelope types describe what signal-cli sends over the receive endpoint
+ * (json-rpc WebSocket or GET /v1/receive). Payload types describe what
+ * SignalAfferent and the effectors emit, and what the receptors consume.
+ * validateReceivedMessage() checks the fields routing depends on at runtime,
+ * so a renamed or mistyped field is reported instead of silently mis-routed.
+ */
+
+import type { SignalGroupSnapshot } from './signal-groups.js';
+import type { SignalProfileSnapshot } from './signal-profiles.js';
+import type { GroupFailover } from './group-ingestion.js';
+import type { SignalAfferentStatus } from './signal-afferent.js';
+import type { SignalApiErrorKind } from './signal-rest-client.js';
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+export interface SignalMention {
+  start: number;
+  length: number;
+  name?: string;
+  number?: string;
+  uuid?: string;
+}
+
+export interface SignalAttachment {
+  id?: string;
+  contentType?: string;
+  filename?: string | null;
+  size?: number;
+  width?: number;
+  height?: number;
+  caption?: string | null;
+}
+
+export interface SignalGroupInfo {
+  groupId: string;
+  groupName?: string;
+  revision?: number;
+  type?: 'DELIVER' | 'UPDATE' | 'QUIT' | string;
+}
+
+export interface SignalQuote {
+  id: number; // timestamp of the quoted message
+  author?: string;
+  authorNumber?: string;
+  authorUuid?: string;
+  text?: string;
+  attachments?: SignalAttachment[];
+  mentions?: SignalMention[];
+}
+
+export interface SignalReaction {
+  emoji: string;
+  targetAuthor?: string;
+  targetAuthorNumber?: string;
+  targetAuthorUuid?: string;
+  targetSentTimestamp: number;
+  isRemove?: boolean;
+}
+
+export interface SignalDataMessage {
+  timestamp?: number;
+  message?: string | null;
+  expiresInSeconds?: number;
+  viewOnce?: boolean;
+  attachments?: SignalAttachment[];
+  mentions?: SignalMention[];
+  quote?: SignalQuote;
+  reaction?: SignalReaction;
+  remoteDelete?: { timestamp: number };
+  groupInfo?: SignalGroupInfo;
+  groupV2?: SignalGroupInfo;
+}
+
+export interface SignalSentMessage extends SignalDataMessage {
+  destination?: string | null;
+  destinationNumber?: string | null;
+  destinationUuid?: string | null;
+}
+
+export interface SignalSyncMessage {
+  sentMessage?: SignalSentMessage;
+  readMessages?: Array<{ sender?: string; senderNumber?: string; senderUuid?: string; timestamp: number }>;
+  type?: string;
+}
+
+export interface SignalReceiptMessage {
+  when?: number;
+  isDelivery?: boolean;
+  isRead?: boolean;
+  isViewed?: boolean;
+  timestamps: number[];
+}
+
+export interface SignalTypingMessage {
+  action: 'STARTED' | 'STOPPED';
+  timestamp?: number;
+  groupId?: string;
+}
+
+export interface SignalEditMessage {
+  targetSentTimestamp: number;
+  dataMessage: SignalDataMessage;
+}
+
+export interface SignalStoryMessage {
+  allowsReplies?: boolean;
+  groupId?: string;
+  fileAttachment?: SignalAttachment;
+  textAttachment?: { text?: string; style?: string };
+}
+
+export interface SignalCallMessage {
+  offerMessage?: { id: number; type?: string };
+  answerMessage?: { id: number };
+  busyMessage?: { id: number };
+  hangupMessage?: { id: number; type?: string; deviceId?: number };
+  iceUpdateMessages?: Array<{ id: number }>;
+}
+
+export interface SignalEnvelope {
+  source?: string;
+  sourceNumber?: string | null;
+  sourceUuid?: string;
+  sourceName?: string;
+  sourceDevice?: number;
+  timestamp: number;
+  serverReceivedTimestamp?: number;
+  serverDeliveredTimestamp?: number;
+  dataMessage?: SignalDataMessage;
+  syncMessage?: SignalSyncMessage;
+  receiptMessage?: SignalReceiptMessage;
+  typingMessage?: SignalTypingMessage;
+  editMessage?: SignalEditMessage;
+  storyMessage?: SignalStoryMessage;
+  callMessage?: SignalCallMessage;
+}
+
+/**
+ * One message from the receive endpoint
+ */
+export interface SignalReceivedMessage {
+  envelope: SignalEnvelope;
+  account?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Event payloads
+// ---------------------------------------------------------------------------
+
+/**
+ * Attachment entry as emitted by the afferent (after download/processing)
+ */
+export interface SignalAttachmentEntry {
+  id?: string;
+  contentType?: string;
+  filename?: string | null;
+  size?: number;
+  width?: number;
+  height?: number;
+  originalContentType?: string;
+  originalSize?: number;
+  processedSize?: number;
+  hash?: string;
+  uri?: string;
+  data?: string; // base64, only without an attachment store
+  derived?: Record<string, any>;
+}
+
+/**
+ * Fields shared by every event that belongs to a conversation
+ */
+export interface SignalConversationPayload {
+  botPhone: string;
+  source: string; // envelope source - a phone number, or the UUID if the number is hidden
+  sourceUuid: string;
+  sourceNumber?: string; // phone number, if the sender shares it
+  sourceName: string;
+  groupId?: string;
+  timestamp: number;
+  streamId: string;
+  streamType: string;
+}
+
+// signal:message
+export interface SignalMessagePayload extends SignalConversationPayload {
+  message: string;
+  attachments: SignalAttachmentEntry[];
+  mentions: SignalMention[];
+  quote?: SignalQuote;
+  rawEnvelope?: SignalEnvelope;
+  destination?: string; // outgoing (linked device) messages only
+  destinationUuid?: string;
+  isOutgoing?: boolean;
+  __reprocessed?: boolean; // re-emitted by the replay command / consistency checker
+}
+
+// signal:edit
+export interface SignalEditPayload extends SignalConversationPayload {
+  message: string;
+  mentions: SignalMention[];
+  targetTimestamp: number;
+}
+
+// signal:delete
+export interface SignalDeletePayload extends SignalConversationPayload {
+  targetTimestamp: number;
+}
+
+// signal:reaction
+export interface SignalReactionPayload extends SignalConversationPayload {
+  emoji: string;
+  isRemove: boolean;
+  targetAuthor?: string;
+  targetAuthorNumber?: string;
+  targetAuthorUuid?: string;
+  targetTimestamp: number;
+}
+
+export interface SignalReceiptEntry {
+  source: string;
+  sourceUuid: string;
+  type: 'delivery' | 'read' | 'viewed';
+  when: number;
+  timestamps: number[];
+}
+
+// signal:receipt
+export interface SignalReceiptPayload {
+  botPhone: string;
+  receipts: SignalReceiptEntry[];
+}
+
+// signal:typing
+export interface SignalTypingPayload extends SignalConversationPayload {
+  action: 'STARTED' | 'STOPPED';
+  expired: boolean;
+  expiresAt?: number;
+}
+
+// signal:group-update
+export interface SignalGroupUpdatePayload extends Omit<SignalConversationPayload, 'source' | 'sourceUuid' | 'sourceNumber' | 'sourceName' | 'groupId'> {
+  groupId: string;
+  // Absent for REFRESH snapshots, which nobody in particular caused
+  source?: string;
+  sourceUuid?: string;
+  sourceNumber?: string;
+  sourceName?: string;
+  updateType: 'UPDATE' | 'QUIT' | 'REFRESH';
+  revision?: number;
+  group: SignalGroupSnapshot | null; // null if the group could not be fetched
+}
+
+// signal:profile-update - profiles that changed since the last contact sync
+export interface SignalProfileUpdatePayload {
+  botPhone: string;
+  profiles: SignalProfileSnapshot[];
+  timestamp: number;
+}
+
+// signal:connection-status
+export interface SignalConnectionStatusPayload extends SignalAfferentStatus {
+  afferentId: string;
+  state: 'connected' | 'disconnected' | 'stale';
+}
+
+// signal:catch-up - bracket the backlog signal-cli flushes after (re)connecting
+export interface SignalCatchUpPayload {
+  afferentId: string;
+  botPhone: string;
+  phase: 'start' | 'end';
+  startedAt: number; // when the connection came up - envelopes sent before this are backlog
+  messageCount: number; // envelopes received since startedAt (0 for 'start')
+  oldestTimestamp?: number; // earliest envelope timestamp in the backlog
+}
+
+// signal:group-failover - a standby emitted a group event its group's primary receiver missed
+export interface SignalGroupFailoverPayload extends GroupFailover {
+  botPhone: string; // the standby, same as standby
+  timestamp: number;
+}
+
+// signal:consistency-report - which bots received a group message, once the consistency check ran
+export interface SignalConsistencyReportPayload {
+  messageId: string;
+  groupId: string;
+  messageTimestamp: number;
+  receiptsObserved: boolean; // false without a groupIngestion coordinator - missingBots is then empty
+  expectedBots: string[]; // bots in the group the check expected to receive the message
+  receivedBy: string[];
+  missingBots: string[];
+  targetedBots: string[]; // mentioned or quoted bots among missingBots
+  action: 'none' | 'reconnect' | 'replay-queued'; // what was done for the targeted bots
+  timestamp: number;
+}
+
+// signal:replay-expired - a queued replay was dropped without the bot ever being activated for the message
+export interface SignalReplayExpiredPayload {
+  botPhone: string;
+  messageId: string;
+  activationId: string;
+  groupId?: string;
+  messageTimestamp: number;
+  queuedAt: number;
+  attempts: number;
+  timestamp: number;
+}
+
+// signal:sent
+export interface SignalSentPayload {
+  facetId: string;
+  botPhone: string;
+  recipientId: string;
+  streamId: string;
+  timestamps: number[];
+}
+
+// signal:send-error
+export interface SignalSendErrorPayload {
+  facetId: string;
+  error: string;
+  kind?: SignalApiErrorKind;
+}
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+export type ValidationResult =
+  | { valid: true; message: SignalReceivedMessage }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a parsed receive-endpoint message. Only fields the afferent routes on
+ * are checked; unknown extra fields are allowed so newer signal-cli versions
+ * keep working.
+ */
+export function validateReceivedMessage(raw: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  const expect = (condition: boolean, error: string) => {
+    if (!condition) errors.push(error);
+  };
+  const optional = (value: unknown, type: 'string' | 'number' | 'boolean', path: string) => {
+    expect(value === undefined || value === null || typeof value === type, `${path} must be a ${type}`);
+  };
+  const mentions = (value: unknown, path: string) => {
+    if (value === undefined || value === null) return;
+    if (!Array.isArray(value)) return errors.push(`${path} must be an array`);
+    value.forEach((mention, i) => {
+      expect(isObject(mention) && typeof mention.start === 'number' && typeof mention.length === 'number',
+        `${path}[${i}] must have numeric start and length`);
+    });
+  };
+  const attachments = (value: unknown, path: string) => {
+    if (value === undefined || value === null) return;
+    if (!Array.isArray(value)) return errors.push(`${path} must be an array`);
+    value.forEach((attachment, i) => expect(isObject(attachment), `${path}[${i}] must be an object`));
+  };
+  const dataMessage = (value: unknown, path: string) => {
+    if (value === undefined) return;
+    if (!isObject(value)) return errors.push(`${path} must be an object`);
+    optional(value.message, 'string', `${path}.message`);
+    mentions(value.mentions, `${path}.mentions`);
+    attachments(value.attachments, `${path}.attachments`);
+    for (const key of ['groupInfo', 'groupV2']) {
+      if (value[key] !== undefined) {
+        expect(isObject(value[key]) && typeof value[key].groupId === 'string', `${path}.${key}.groupId must be a string`);
+      }
+    }
+    if (value.reaction !== undefined) {
+      expect(isObject(value.reaction) && typeof value.reaction.emoji === 'string', `${path}.reaction.emoji must be a string`);
+      expect(typeof value.reaction?.targetSentTimestamp === 'number', `${path}.reaction.targetSentTimestamp must be a number`);
+    }
+    if (value.remoteDelete !== undefined) {
+      expect(isObject(value.remoteDelete) && typeof value.remoteDelete.timestamp === 'number', `${path}.remoteDelete.timestamp must be a number`);
+    }
+    if (value.quote !== undefined && value.quote !== null) {
+      expect(isObject(value.quote) && typeof value.quote.id === 'number', `${path}.quote.id must be a number`);
+    }
+  };
+
+  if (!isObject(raw)) {
+    return { valid: false, errors: ['message must be an object'] };
+  }
+  const envelope = raw.envelope;
+  if (!isObject(envelope)) {
+    return { valid: false, errors: ['envelope must be an object'] };
+  }
+
+  expect(typeof envelope.timestamp === 'number', 'envelope.timestamp must be a number');
+  optional(envelope.source, 'string', 'envelope.source');
+  optional(envelope.sourceNumber, 'string', 'envelope.sourceNumber');
+  optional(envelope.sourceUuid, 'string', 'envelope.sourceUuid');
+  optional(envelope.sourceName, 'string', 'envelope.sourceName');
+
+  dataMessage(envelope.dataMessage, 'envelope.dataMessage');
+
+  if (envelope.syncMessage !== undefined) {
+    if (!isObject(envelope.syncMessage)) {
+      errors.push('envelope.syncMessage must be an object');
+    } else {
+      dataMessage(envelope.syncMessage.sentMessage, 'envelope.syncMessage.sentMessage');
+    }
+  }
+
+  if (envelope.editMessage !== undefined) {
+    if (!isObject(envelope.editMessage)) {
+      errors.push('envelope.editMessage must be an object');
+    } else {
+      expect(typeof envelope.editMessage.targetSentTimestamp === 'number', 'envelope.editMessage.targetSentTimestamp must be a number');
+      expect(isObject(envelope.editMessage.dataMessage), 'envelope.editMessage.dataMessage must be an object');
+      dataMessage(envelope.editMessage.dataMessage, 'envelope.editMessage.dataMessage');
+    }
+  }
+
+  if (envelope.receiptMessage !== undefined) {
+    const receipt = envelope.receiptMessage;
+    expect(isObject(receipt) && Array.isArray(receipt.timestamps) && receipt.timestamps.every((ts: unknown) => typeof ts === 'number'),
+      'envelope.receiptMessage.timestamps must be an array of numbers');
+  }
+
+  if (envelope.typingMessage !== undefined) {
+    expect(isObject(envelope.typingMessage) && ['STARTED', 'STOPPED'].includes(envelope.typingMessage.action),
+      'envelope.typingMessage.action must be STARTED or STOPPED');
+  }
+
+  for (const key of ['storyMessage', 'callMessage']) {
+    if (envelope[key] !== undefined) {
+      expect(isObject(envelope[key]), `envelope.${key} must be an object`);
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, message: raw as SignalReceivedMessage };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { deflateSync } from 'zlib';
+import {
+  AttachmentProcessorRegistry,
+  PdfTextProcessor,
+  StubAttachmentProcessor,
+  createDefaultAttachmentProcessors
+} from '../src/attachment-processors.js';
+
+function pdf(...streams: Array<{ dictionary: string; content: Buffer }>): Buffer {
+  return Buffer.concat(streams.flatMap(({ dictionary, content }) => [
+    Buffer.from(`${dictionary}\nstream\n`, 'latin1'),
+    content,
+    Buffer.from('\nendstream\n', 'latin1')
+  ]));
+}
+
+describe('AttachmentProcessorRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prefers exact MIME types over wildcards', () => {
+    const exact = new StubAttachmentProcessor();
+    const major = new StubAttachmentProcessor();
+    const any = new StubAttachmentProcessor();
+    const registry = new AttachmentProcessorRegistry()
+      .register('*', any)
+      .register('text/*', major)
+      .register('text/csv', exact);
+
+    expect(registry.find('text/csv')).toBe(exact);
+    expect(registry.find('Text/CSV; charset=utf-8')).toBe(exact);
+    expect(registry.find('text/plain')).toBe(major);
+    expect(registry.find('application/zip')).toBe(any);
+  });
+
+  it('routes the default processors by MIME type', () => {
+    const registry = createDefaultAttachmentProcessors();
+
+    expect(registry.find('text/plain')?.name).toBe('text');
+    expect(registry.find('application/json')?.name).toBe('text');
+    expect(registry.find('application/pdf')?.name).toBe('pdf-text');
+    expect(registry.find('video/mp4')?.name).toBe('video-metadata');
+    expect(registry.find('audio/aac')).toBeUndefined();
+    expect(createDefaultAttachmentProcessors({ transcribe: async () => '' }).find('audio/aac')?.name).toBe('transcription');
+  });
+
+  it('returns null when the processor fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const registry = new AttachmentProcessorRegistry().register('*', {
+      name: 'broken',
+      process: async () => { throw new Error('boom'); }
+    });
+
+    expect(await registry.process({ data: Buffer.from('x'), contentType: 'text/plain' })).toBeNull();
+  });
+});
+
+describe('PdfTextProcessor', () => {
+  it('extracts text from plain and Flate-compressed streams', async () => {
+    const data = pdf(
+      { dictionary: '<< /Length 20 >>', content: Buffer.from('BT (Hello) Tj ET') },
+      { dictionary: '<< /Filter /FlateDecode >>', content: deflateSync(Buffer.from('BT (World) Tj ET')) }
+    );
+
+    const derived = await new PdfTextProcessor().process({ data, contentType: 'application/pdf' });
+
+    expect(derived?.text).toContain('Hello');
+    expect(derived?.text).toContain('World');
+  });
+
+  it('skips streams that inflate past the limit', async () => {
+    const data = pdf(
+      { dictionary: '<< /Filter /FlateDecode >>', content: deflateSync(Buffer.alloc(64 * 1024)) },
+      { dictionary: '<< /Filter /FlateDecode >>', content: deflateSync(Buffer.from('BT (Small) Tj ET')) }
+    );
+
+    const derived = await new PdfTextProcessor(20000, 1024).process({ data, contentType: 'application/pdf' });
+
+    expect(derived?.text).toContain('Small');
+  });
+});
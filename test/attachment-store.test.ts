@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalAttachmentStore, attachmentUri, loadAttachmentData } from '../src/attachment-store.js';
+
+describe('LocalAttachmentStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores attachments by content hash', async () => {
+    const store = new LocalAttachmentStore({ directory });
+    const data = Buffer.from('hello');
+    const hash = createHash('sha256').update(data).digest('hex');
+
+    expect(await store.put(data)).toEqual({ hash, uri: attachmentUri(hash), size: 5 });
+    expect(await fs.readFile(path.join(directory, hash), 'utf8')).toBe('hello');
+    expect((await store.get(hash))?.toString()).toBe('hello');
+    expect((await store.get(attachmentUri(hash)))?.toString()).toBe('hello');
+    expect(await store.get('0'.repeat(64))).toBeNull();
+  });
+
+  it('writes identical concurrent puts once', async () => {
+    const store = new LocalAttachmentStore({ directory, maxBytes: 20 });
+    const data = Buffer.from('0123456789');
+
+    const stored = await Promise.all([store.put(data), store.put(data), store.put(Buffer.from(data))]);
+
+    expect(new Set(stored.map(entry => entry.hash)).size).toBe(1);
+    // Counted once - a second copy of 10 bytes would still fit, a third wouldn't
+    await store.put(Buffer.from('abcdefghij'));
+    expect(await fs.readdir(directory)).toHaveLength(2);
+    expect((await store.get(stored[0].hash))?.toString()).toBe('0123456789');
+  });
+
+  it('rejects an attachment larger than maxBytes without evicting others', async () => {
+    const store = new LocalAttachmentStore({ directory, maxBytes: 10 });
+    const kept = await store.put(Buffer.from('small'));
+
+    await expect(store.put(Buffer.alloc(11))).rejects.toThrow('exceeds the store limit');
+    expect(await fs.readdir(directory)).toEqual([kept.hash]);
+  });
+
+  it('evicts the least recently used attachments over maxBytes', async () => {
+    const store = new LocalAttachmentStore({ directory, maxBytes: 10 });
+    const first = await store.put(Buffer.from('aaaa'));
+    const second = await store.put(Buffer.from('bbbb'));
+
+    await store.get(first.hash); // first is now the most recently used
+    await store.put(Buffer.from('cccc'));
+
+    expect(await store.get(second.hash)).toBeNull();
+    expect((await store.get(first.hash))?.toString()).toBe('aaaa');
+  });
+
+  it('reloads stored attachments after a restart', async () => {
+    const { hash } = await new LocalAttachmentStore({ directory }).put(Buffer.from('persisted'));
+
+    expect((await new LocalAttachmentStore({ directory }).get(hash))?.toString()).toBe('persisted');
+  });
+});
+
+describe('loadAttachmentData', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns inline base64 data without a store', async () => {
+    expect(await loadAttachmentData({ data: 'aGk=' })).toBe('aGk=');
+  });
+
+  it('loads stored attachments by hash or URI as base64', async () => {
+    const store = new LocalAttachmentStore({ directory });
+    const { hash, uri } = await store.put(Buffer.from('hi'));
+
+    expect(await loadAttachmentData({ hash }, store)).toBe('aGk=');
+    expect(await loadAttachmentData({ uri }, store)).toBe('aGk=');
+  });
+
+  it('returns null for references it cannot resolve', async () => {
+    const store = new LocalAttachmentStore({ directory });
+
+    expect(await loadAttachmentData({ hash: '0'.repeat(64) }, store)).toBeNull();
+    expect(await loadAttachmentData({ uri: attachmentUri('abc') })).toBeNull();
+    expect(await loadAttachmentData({}, store)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GroupDirectory } from '../src/group-directory.js';
+import type { SignalRestClient } from '../src/signal-rest-client.js';
+
+const apiGroup = {
+  id: 'group.ext',
+  internal_id: 'int',
+  name: 'Team',
+  description: '',
+  members: ['+1', '+2'],
+  admins: ['+1']
+};
+
+function directory(listGroups: (botPhone: string) => Promise<any[]>, config: { ttl?: number; negativeTtl?: number } = {}) {
+  const client = { listGroups: vi.fn(listGroups) };
+  return { client, directory: new GroupDirectory({ client: client as unknown as SignalRestClient, ...config }) };
+}
+
+describe('GroupDirectory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves internal and external IDs from one fetch', async () => {
+    const { client, directory: groups } = directory(async () => [apiGroup]);
+
+    expect(await groups.toExternalId('+1', 'int')).toBe('group.ext');
+    expect(await groups.toInternalId('+1', 'group.ext')).toBe('int');
+    expect(groups.peek('group.ext')).toMatchObject({ groupId: 'int', name: 'Team', description: undefined, members: ['+1', '+2'] });
+    expect(client.listGroups).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches once the TTL has passed', async () => {
+    const { client, directory: groups } = directory(async () => [apiGroup], { ttl: 1000 });
+
+    await groups.getGroup('+1', 'int');
+    vi.advanceTimersByTime(999);
+    await groups.getGroup('+1', 'int');
+    expect(client.listGroups).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await groups.getGroup('+1', 'int');
+    expect(client.listGroups).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers unknown groups until the negative TTL has passed', async () => {
+    const { client, directory: groups } = directory(async () => [apiGroup], { negativeTtl: 500 });
+
+    expect(await groups.getGroup('+1', 'missing')).toBeNull();
+    expect(await groups.getGroup('+1', 'missing')).toBeNull();
+    expect(client.listGroups).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(500);
+    expect(await groups.getGroup('+1', 'missing')).toBeNull();
+    expect(client.listGroups).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets a negative entry once the group shows up', async () => {
+    let listed: any[] = [];
+    const { directory: groups } = directory(async () => listed);
+
+    expect(await groups.getGroup('+1', 'int')).toBeNull();
+    listed = [apiGroup];
+    await groups.refresh('+1');
+
+    expect((await groups.getGroup('+1', 'int'))?.externalId).toBe('group.ext');
+  });
+
+  it('shares one request between concurrent lookups for a bot', async () => {
+    let resolve!: (groups: any[]) => void;
+    const { client, directory: groups } = directory(() => new Promise(r => { resolve = r; }));
+
+    const lookups = Promise.all([
+      groups.getGroup('+1', 'int'),
+      groups.toExternalId('+1', 'int'),
+      groups.toInternalId('+1', 'group.ext')
+    ]);
+    resolve([apiGroup]);
+
+    expect(await lookups).toEqual([expect.objectContaining({ groupId: 'int' }), 'group.ext', 'int']);
+    expect(client.listGroups).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to a stale entry when the refetch fails', async () => {
+    let fail = false;
+    const { directory: groups } = directory(async () => {
+      if (fail) throw new Error('unreachable');
+      return [apiGroup];
+    }, { ttl: 1000 });
+
+    await groups.getGroup('+1', 'int');
+    fail = true;
+    vi.advanceTimersByTime(1000);
+
+    expect((await groups.getGroup('+1', 'int'))?.name).toBe('Team');
+    expect(await groups.getGroup('+1', 'other')).toBeNull();
+  });
+
+  it('refetches an invalidated group', async () => {
+    const { client, directory: groups } = directory(async () => [apiGroup]);
+
+    await groups.getGroup('+1', 'int');
+    groups.invalidate('group.ext');
+
+    expect(groups.peek('int')).toBeUndefined();
+    await groups.getGroup('+1', 'int');
+    expect(client.listGroups).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GroupIngestionCoordinator } from '../src/group-ingestion.js';
+import { MessageDeduplicator } from '../src/message-deduplicator.js';
+import type { GroupDirectory } from '../src/group-directory.js';
+
+const bots = {
+  botNames: new Map([['+1', 'alpha'], ['+2', 'beta'], ['+3', 'gamma']]),
+  botUuids: new Map([['+3', 'uuid-gamma']])
+};
+
+function directoryWithMembers(members: string[]): GroupDirectory {
+  return { peek: () => ({ groupId: 'g', name: 'g', members, admins: [] }) } as unknown as GroupDirectory;
+}
+
+describe('GroupIngestionCoordinator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('ranks bots the same way in every instance', () => {
+    const a = new GroupIngestionCoordinator({ bots });
+    const b = new GroupIngestionCoordinator({ bots });
+
+    expect(a.ranking('group-1')).toEqual(b.ranking('group-1'));
+    expect([...a.ranking('group-1')].sort()).toEqual(['+1', '+2', '+3']);
+  });
+
+  it('ranks only bots that are members, by phone number or UUID', () => {
+    const coordinator = new GroupIngestionCoordinator({ bots, groupDirectory: directoryWithMembers(['+1', 'uuid-gamma']) });
+
+    expect([...coordinator.ranking('g')].sort()).toEqual(['+1', '+3']);
+  });
+
+  it('lets the primary emit and keeps standbys quiet', async () => {
+    const coordinator = new GroupIngestionCoordinator({ bots, standbyWindow: 100 });
+    const deduplicator = new MessageDeduplicator();
+    const [primary, ...standbys] = coordinator.ranking('g');
+
+    const decisions = Promise.all([primary, ...standbys].map(phone => coordinator.admit('g', 'm1', phone, deduplicator, Date.now())));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await decisions).map(decision => [decision.role, decision.emit, !!decision.failover])).toEqual([
+      ['primary', true, false],
+      ['standby', false, false],
+      ['standby', false, false]
+    ]);
+    expect(coordinator.receivedBy('m1').sort()).toEqual(['+1', '+2', '+3']);
+  });
+
+  it('fails over to the first standby and demotes a primary that keeps missing', async () => {
+    const coordinator = new GroupIngestionCoordinator({ bots, standbyWindow: 100, failoversBeforeDemotion: 2 });
+    const deduplicator = new MessageDeduplicator();
+    const [primary, first, second] = coordinator.ranking('g');
+
+    for (const [messageId, demoted] of [['m1', false], ['m2', true]] as const) {
+      const decisions = Promise.all([first, second].map(phone => coordinator.admit('g', messageId, phone, deduplicator, Date.now())));
+      await vi.advanceTimersByTimeAsync(1000);
+      const [firstDecision, secondDecision] = await decisions;
+
+      expect(firstDecision.emit).toBe(true);
+      expect(firstDecision.failover).toMatchObject({ primary, standby: first, waited: 100, demoted });
+      expect(secondDecision.emit).toBe(false);
+    }
+
+    expect(coordinator.ranking('g')).toEqual([first, second, primary]);
+    coordinator.reset('g');
+    expect(coordinator.ranking('g')[0]).toBe(primary);
+  });
+
+  it('keeps claims longer than the slowest standby waits, whatever the dedup TTL', async () => {
+    const coordinator = new GroupIngestionCoordinator({ bots, standbyWindow: 5000 });
+    const deduplicator = new MessageDeduplicator({ ttl: 100 });
+    const [primary, , last] = coordinator.ranking('g');
+
+    const receivedAt = Date.now();
+    expect((await coordinator.admit('g', 'm1', primary, deduplicator, receivedAt)).emit).toBe(true);
+
+    const decision = coordinator.admit('g', 'm1', last, deduplicator, receivedAt);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(await decision).toEqual({ emit: false, role: 'standby' });
+  });
+
+  it('lets only one bot emit while processes disagree on membership', async () => {
+    // One process hasn't seen the first bot join the group yet
+    const everyone = new GroupIngestionCoordinator({ bots, groupDirectory: directoryWithMembers(['+1', '+2', '+3']), standbyWindow: 100 });
+    const [joined] = everyone.ranking('g');
+    const behind = new GroupIngestionCoordinator({
+      bots,
+      groupDirectory: directoryWithMembers(['+1', '+2', '+3'].filter(phone => phone !== joined)),
+      standbyWindow: 100
+    });
+    expect(behind.ranking('g')[0]).not.toBe(joined);
+
+    // Both processes' primaries claim at once, through a shared deduplicator
+    const deduplicator = new MessageDeduplicator();
+    const decisions = await Promise.all([
+      everyone.admit('g', 'm1', joined, deduplicator, Date.now()),
+      behind.admit('g', 'm1', behind.ranking('g')[0], deduplicator, Date.now())
+    ]);
+
+    expect(decisions.map(decision => [decision.role, decision.emit])).toEqual([['primary', true], ['primary', false]]);
+  });
+
+  it('treats messages older than the standby window as backlog, not failovers', async () => {
+    const coordinator = new GroupIngestionCoordinator({ bots, standbyWindow: 100, failoversBeforeDemotion: 1 });
+    const deduplicator = new MessageDeduplicator();
+    const [primary, standby] = coordinator.ranking('g');
+
+    const decision = await coordinator.admit('g', 'old', standby, deduplicator, Date.now() - 60000);
+
+    expect(decision).toEqual({ emit: true, role: 'standby' });
+    expect(coordinator.ranking('g')[0]).toBe(primary);
+
+    // The primary flushing the same backlog later doesn't emit it again
+    expect((await coordinator.admit('g', 'old', primary, deduplicator, Date.now() - 60000)).emit).toBe(false);
+  });
+});
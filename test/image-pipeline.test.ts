@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import sharp from 'sharp';
+import { ImagePipeline } from '../src/image-pipeline.js';
+
+// Random pixels compress badly, so size limits actually have to be enforced
+function noisyImage(width: number, height: number) {
+  return sharp(randomBytes(width * height * 3), { raw: { width, height, channels: 3 } });
+}
+
+describe('ImagePipeline', () => {
+  it('strips EXIF metadata, including location', async () => {
+    const photo = await noisyImage(64, 64)
+      .withMetadata({ exif: { IFD0: { Make: 'Phone', Copyright: 'Ann' }, IFD3: { GPSLatitudeRef: 'N' } } })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const processed = await new ImagePipeline().process(photo, 'image/jpeg');
+
+    expect((await sharp(processed.data).metadata()).exif).toBeUndefined();
+    expect(processed).toMatchObject({ contentType: 'image/jpeg', originalContentType: 'image/jpeg', width: 64, height: 64 });
+  });
+
+  it('scales images within maxWidth/maxHeight', async () => {
+    const image = await noisyImage(400, 200).png().toBuffer();
+
+    const processed = await new ImagePipeline({ maxWidth: 100, maxHeight: 100 }).process(image, 'image/png');
+
+    expect([processed.width, processed.height]).toEqual([100, 50]);
+  });
+
+  it('re-encodes until the image fits maxBytes', async () => {
+    const image = await noisyImage(600, 600).png().toBuffer();
+
+    const processed = await new ImagePipeline({ maxBytes: 60 * 1024 }).process(image, 'image/png');
+
+    expect(processed.processedSize).toBeLessThanOrEqual(60 * 1024);
+    expect(processed.processedSize).toBe(processed.data.length);
+    expect(processed.originalSize).toBe(image.length);
+  });
+
+  it('throws for data that is not an image', async () => {
+    await expect(new ImagePipeline().process(Buffer.from('not an image'), 'image/jpeg')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { IngestQueue } from '../src/ingest-queue.js';
+
+describe('IngestQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers a conversation in timestamp order regardless of release order', () => {
+    const queue = new IngestQueue();
+    const delivered: number[] = [];
+
+    const slow = queue.reserve('chat', 1);
+    const fast = queue.reserve('chat', 2);
+    const early = queue.reserve('chat', 0); // arrives last but was sent first
+
+    fast.release(() => delivered.push(2));
+    slow.release(() => delivered.push(1));
+    expect(delivered).toEqual([]);
+
+    early.release(() => delivered.push(0));
+    expect(delivered).toEqual([0, 1, 2]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('does not hold up other conversations', () => {
+    const queue = new IngestQueue();
+    const delivered: string[] = [];
+
+    queue.reserve('a', 1);
+    queue.reserve('b', 2).release(() => delivered.push('b'));
+
+    expect(delivered).toEqual(['b']);
+    expect(queue.size).toBe(1);
+  });
+
+  it('releases without a delivery let later slots through', () => {
+    const queue = new IngestQueue();
+    const delivered: number[] = [];
+
+    const skipped = queue.reserve('chat', 1);
+    queue.reserve('chat', 2).release(() => delivered.push(2));
+    skipped.release();
+
+    expect(delivered).toEqual([2]);
+  });
+
+  it('stops waiting for a slot after the timeout and delivers it late', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const queue = new IngestQueue(1000);
+    const delivered: number[] = [];
+
+    const stuck = queue.reserve('chat', 1);
+    queue.reserve('chat', 2).release(() => delivered.push(2));
+
+    vi.advanceTimersByTime(1000);
+    expect(delivered).toEqual([2]);
+
+    stuck.release(() => delivered.push(1));
+    expect(delivered).toEqual([2, 1]);
+  });
+
+  it('never delivers slots that were pending when cleared', () => {
+    const queue = new IngestQueue();
+    const delivered: number[] = [];
+
+    const slot = queue.reserve('chat', 1);
+    queue.clear();
+    slot.release(() => delivered.push(1));
+
+    expect(delivered).toEqual([]);
+    expect(queue.size).toBe(0);
+  });
+});
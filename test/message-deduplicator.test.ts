@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageDeduplicator, MemoryDedupStore, FileDedupStore } from '../src/message-deduplicator.js';
+import type { DedupStore } from '../src/message-deduplicator.js';
+
+describe('MessageDeduplicator', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('lets only the first bot emit a group message', async () => {
+    const deduplicator = new MessageDeduplicator();
+
+    expect(await deduplicator.shouldEmit('m1', '+1', true)).toBe(true);
+    expect(await deduplicator.shouldEmit('m1', '+2', true)).toBe(false);
+    expect(await deduplicator.getFirstReceiver('m1')).toBe('+1');
+  });
+
+  it('always emits DMs and re-processed messages', async () => {
+    const deduplicator = new MessageDeduplicator();
+    await deduplicator.shouldEmit('m1', '+1', true);
+
+    expect(await deduplicator.shouldEmit('dm', '+1', false)).toBe(true);
+    expect(await deduplicator.shouldEmit('dm', '+2', false)).toBe(true);
+    expect(await deduplicator.shouldEmit('m1', '+2', true, true)).toBe(true);
+  });
+
+  it('allows a new claim once the TTL has passed', async () => {
+    vi.useFakeTimers();
+    const deduplicator = new MessageDeduplicator({ ttl: 1000 });
+
+    expect(await deduplicator.shouldEmit('m1', '+1', true)).toBe(true);
+    vi.advanceTimersByTime(999);
+    expect(await deduplicator.shouldEmit('m1', '+2', true)).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(await deduplicator.shouldEmit('m1', '+2', true)).toBe(true);
+  });
+
+  it('honours a per-claim TTL', async () => {
+    vi.useFakeTimers();
+    const deduplicator = new MessageDeduplicator({ ttl: 1000 });
+
+    await deduplicator.shouldEmit('m1', '+1', true, false, 5000);
+    vi.advanceTimersByTime(4000);
+    expect(await deduplicator.shouldEmit('m1', '+2', true)).toBe(false);
+  });
+
+  it('emits anyway when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store: DedupStore = {
+      claim: async () => { throw new Error('unavailable'); },
+      getFirstReceiver: async () => undefined
+    };
+    const deduplicator = new MessageDeduplicator({ store });
+
+    expect(await deduplicator.shouldEmit('m1', '+1', true)).toBe(true);
+    expect(await deduplicator.shouldEmit('m1', '+2', true)).toBe(true);
+  });
+
+  it('only reports stats for in-memory stores', async () => {
+    const memory = new MessageDeduplicator({ store: new MemoryDedupStore() });
+    await memory.shouldEmit('m1', '+1', true);
+
+    expect(memory.getStats()?.trackedMessages).toBe(1);
+    expect(new MessageDeduplicator({ store: new FileDedupStore({ directory: os.tmpdir() }) }).getStats()).toBeUndefined();
+  });
+});
+
+describe('FileDedupStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  // Age a message's claim file past the TTL
+  async function expire(messageId: string): Promise<string> {
+    const file = path.join(directory, `${createHash('sha1').update(messageId).digest('hex')}.claim`);
+    const past = new Date(Date.now() - 20000);
+    await fs.utimes(file, past, past);
+    return file;
+  }
+
+  it('lets one of several stores sharing a directory claim a message', async () => {
+    const stores = [1, 2, 3].map(() => new FileDedupStore({ directory }));
+
+    const claims = await Promise.all(stores.map((store, i) => store.claim('group-message', `+${i}`, 10000)));
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await stores[0].getFirstReceiver('group-message')).toBe(`+${claims.indexOf(true)}`);
+  });
+
+  it('takes over an expired claim', async () => {
+    const first = new FileDedupStore({ directory });
+    const second = new FileDedupStore({ directory });
+    await first.claim('m1', '+1', 10000);
+
+    await expire('m1');
+
+    expect(await second.claim('m1', '+2', 10000)).toBe(true);
+    expect(await second.getFirstReceiver('m1')).toBe('+2');
+  });
+
+  it('lets only one of several stores take over the same expired claim', async () => {
+    const stores = [1, 2, 3, 4, 5].map(() => new FileDedupStore({ directory }));
+
+    for (let i = 0; i < 20; i++) {
+      const messageId = `m${i}`;
+      await stores[0].claim(messageId, '+0', 10000);
+      await expire(messageId);
+
+      const claims = await Promise.all(stores.map((store, j) => store.claim(messageId, `+${j}`, 10000)));
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+      expect(await stores[0].getFirstReceiver(messageId)).toBe(`+${claims.indexOf(true)}`);
+    }
+  });
+
+  it("doesn't take over a claim another store replaced after it saw it expire", async () => {
+    const first = new FileDedupStore({ directory });
+    const second = new FileDedupStore({ directory });
+    await first.claim('m1', '+0', 10000);
+    const file = await expire('m1');
+
+    // second looks at the claim while it is expired, then first replaces it
+    const expired = await fs.stat(file);
+    expect(await first.claim('m1', '+1', 10000)).toBe(true);
+    vi.spyOn(fs, 'stat').mockResolvedValueOnce(expired);
+
+    expect(await second.claim('m1', '+2', 10000)).toBe(false);
+    expect(await first.getFirstReceiver('m1')).toBe('+1');
+  });
+
+  it('sweeps expired claims and leaves live ones', async () => {
+    const store = new FileDedupStore({ directory, cleanupInterval: 0 });
+    await store.claim('old', '+1', 10000);
+    await store.claim('live', '+1', 10000);
+    await expire('old');
+
+    await store.claim('trigger', '+1', 10000);
+    await vi.waitFor(async () => {
+      expect(await store.getFirstReceiver('old')).toBeUndefined();
+    });
+    expect(await store.getFirstReceiver('live')).toBe('+1');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { BackoffReconnectPolicy } from '../src/reconnect-policy.js';
+
+describe('BackoffReconnectPolicy', () => {
+  it('backs off exponentially up to maxDelay', () => {
+    const policy = new BackoffReconnectPolicy({ initialDelay: 100, maxDelay: 1000, jitter: 0 });
+
+    expect([0, 1, 2, 3, 4, 5].map(attempt => policy.next(attempt, 0)?.delay)).toEqual([100, 200, 400, 800, 1000, 1000]);
+    expect(policy.next(0, 0)?.circuit).toBe('closed');
+  });
+
+  it('keeps jittered delays within +/- jitter/2', () => {
+    const policy = new BackoffReconnectPolicy({ initialDelay: 1000, jitter: 0.2 });
+
+    for (let i = 0; i < 50; i++) {
+      const delay = policy.next(0, 0)!.delay;
+      expect(delay).toBeGreaterThanOrEqual(900);
+      expect(delay).toBeLessThanOrEqual(1100);
+    }
+  });
+
+  it('opens the circuit and probes once maxReconnectTime has passed', () => {
+    const policy = new BackoffReconnectPolicy({ maxReconnectTime: 5000, probeInterval: 60000, jitter: 0 });
+
+    expect(policy.next(10, 5000)).toEqual({ delay: 60000, circuit: 'open' });
+  });
+
+  it('gives up after maxReconnectTime with onExhausted: give-up', () => {
+    const policy = new BackoffReconnectPolicy({ maxReconnectTime: 5000, onExhausted: 'give-up' });
+
+    expect(policy.next(3, 4999)).not.toBeNull();
+    expect(policy.next(3, 5000)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReplayQueue, replayActivationId } from '../src/replay-queue.js';
+import type { SignalMessagePayload } from '../src/signal-types.js';
+
+const payload = {
+  botPhone: '+1',
+  source: '+100',
+  sourceUuid: 'user-uuid',
+  groupId: 'g',
+  message: 'hi @beta',
+  timestamp: 1700000000000,
+  streamId: 'signal-stream-g',
+  streamType: 'signal'
+} as SignalMessagePayload;
+
+function stateWith(...facetIds: string[]): any {
+  return { facets: new Map(facetIds.map(id => [id, { id, type: 'agent-activation' }])) };
+}
+
+describe('ReplayQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replays right away and retries with exponential backoff', async () => {
+    const replay = vi.fn();
+    const queue = new ReplayQueue({ replay, retryDelay: 1000, maxRetryDelay: 4000 });
+
+    await queue.enqueue('+2', payload);
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(replay).toHaveBeenCalledWith('+2', payload);
+
+    // Retries after 1s, then 2s, 4s, 4s (capped)
+    for (const [delay, calls] of [[1000, 2], [2000, 3], [4000, 4], [4000, 5]]) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(replay).toHaveBeenCalledTimes(calls - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(replay).toHaveBeenCalledTimes(calls);
+    }
+    queue.stop();
+  });
+
+  it('stops retrying once the activation is acknowledged', async () => {
+    const replay = vi.fn();
+    const queue = new ReplayQueue({ replay, retryDelay: 1000 });
+
+    await queue.enqueue('+2', payload);
+    expect(queue.acknowledge(replayActivationId('+2', payload))).toBe(true);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('does not replay when the bot was already activated for the message', async () => {
+    const replay = vi.fn();
+    const queue = new ReplayQueue({ replay });
+
+    await queue.enqueue('+2', payload, stateWith(replayActivationId('+2', payload)));
+
+    expect(replay).not.toHaveBeenCalled();
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('acknowledges from observed state before the next attempt', async () => {
+    const replay = vi.fn();
+    const queue = new ReplayQueue({ replay, retryDelay: 1000 });
+
+    await queue.enqueue('+2', payload);
+    queue.observe(stateWith(replayActivationId('+2', payload)));
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('expires items after maxAge and reports them', async () => {
+    const emitEvent = vi.fn();
+    const queue = new ReplayQueue({ replay: () => {}, retryDelay: 1000, maxAge: 10000, emitEvent });
+
+    await queue.enqueue('+2', payload);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(queue.pending()).toEqual([]);
+    expect(emitEvent).toHaveBeenCalledTimes(1);
+    expect(emitEvent.mock.calls[0][0]).toMatchObject({
+      topic: 'signal:replay-expired',
+      payload: { botPhone: '+2', activationId: replayActivationId('+2', payload), groupId: 'g', attempts: 4 }
+    });
+  });
+});
+
+describe('ReplayQueue persistence', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('resumes pending replays from the file after a restart', async () => {
+    const file = path.join(directory, 'replays.json');
+    const first = new ReplayQueue({ replay: () => {}, file, retryDelay: 60000 });
+    await first.enqueue('+2', payload);
+    first.stop();
+
+    // Let the serialized save finish
+    await vi.waitFor(async () => {
+      expect(JSON.parse(await fs.readFile(file, 'utf8'))).toHaveLength(1);
+    });
+
+    const second = new ReplayQueue({ replay: () => {}, file, retryDelay: 60000 });
+    await second.start();
+    second.stop();
+
+    expect(second.pending()).toMatchObject([{ botPhone: '+2', attempts: 1, activationId: replayActivationId('+2', payload) }]);
+  });
+});
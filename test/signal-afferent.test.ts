@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SignalAfferent } from '../src/signal-afferent.js';
+import { GroupIngestionCoordinator } from '../src/group-ingestion.js';
+import { IngestQueue } from '../src/ingest-queue.js';
+import { MessageDeduplicator } from '../src/message-deduplicator.js';
+
+function createAfferent(config: Record<string, any> = {}) {
+  const afferent = new SignalAfferent();
+  const emitted: any[] = [];
+  (afferent as any).context = { afferentId: 'signal-+1', config: { botPhone: '+1', ...config } };
+  // What onInitialize sets up, without a REST client
+  (afferent as any).ingestQueue = new IngestQueue();
+  (afferent as any).deduplicator = new MessageDeduplicator();
+  vi.spyOn(afferent as any, 'emit').mockImplementation((event: any) => { emitted.push(event); });
+
+  // handleMessage is what the WebSocket and poll receivers call for each raw message
+  const handleMessage = (data: string): Promise<void> => (afferent as any).handleMessage(data);
+  return { emitted, handleMessage };
+}
+
+describe('SignalAfferent malformed envelopes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('emits a recoverable MALFORMED_ENVELOPE error instead of throwing', async () => {
+    const { emitted, handleMessage } = createAfferent();
+    const data = JSON.stringify({ envelope: { source: '+100', dataMessage: { message: 'hi', mentions: 'all' } } });
+
+    await expect(handleMessage(data)).resolves.toBeUndefined();
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0]).toMatchObject({
+      topic: 'afferent:error',
+      payload: {
+        afferentId: 'signal-+1',
+        errorType: 'MALFORMED_ENVELOPE',
+        recoverable: true,
+        errors: ['envelope.timestamp must be a number', 'envelope.dataMessage.mentions must be an array'],
+        raw: data
+      }
+    });
+  });
+
+  it('reports invalid JSON the same way', async () => {
+    const { emitted, handleMessage } = createAfferent();
+
+    await expect(handleMessage('{"envelope":')).resolves.toBeUndefined();
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].payload.errorType).toBe('MALFORMED_ENVELOPE');
+    expect(emitted[0].payload.errors[0]).toMatch(/^invalid JSON: /);
+  });
+});
+
+describe('SignalAfferent group ingestion', () => {
+  const bots = { botNames: new Map([['+1', 'alpha'], ['+2', 'beta']]), botUuids: new Map() };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function groupMessage(envelope: Record<string, any>): string {
+    return JSON.stringify({
+      envelope: {
+        source: '+100',
+        sourceUuid: 'user-uuid',
+        dataMessage: { message: 'hi', groupInfo: { groupId: 'g' } },
+        ...envelope
+      }
+    });
+  }
+
+  it("ages messages by the server's receive time rather than the sender's clock", async () => {
+    const groupIngestion = new GroupIngestionCoordinator({ bots });
+    const admit = vi.spyOn(groupIngestion, 'admit').mockResolvedValue({ emit: false, role: 'standby' });
+    const { handleMessage } = createAfferent({ groupIngestion });
+
+    // The sender's phone is a minute slow
+    const sentAt = Date.now() - 60000;
+    await handleMessage(groupMessage({ timestamp: sentAt, serverReceivedTimestamp: sentAt + 60000 }));
+
+    expect(admit).toHaveBeenCalledWith('g', `user-uuid-${sentAt}`, '+1', expect.any(MessageDeduplicator), sentAt + 60000);
+  });
+
+  it('falls back to the local arrival time without a server timestamp', async () => {
+    const groupIngestion = new GroupIngestionCoordinator({ bots });
+    const admit = vi.spyOn(groupIngestion, 'admit').mockResolvedValue({ emit: false, role: 'standby' });
+    const { handleMessage } = createAfferent({ groupIngestion });
+
+    const before = Date.now();
+    await handleMessage(groupMessage({ timestamp: before - 60000 }));
+
+    const receivedAt = admit.mock.calls[0][4];
+    expect(receivedAt).toBeGreaterThanOrEqual(before);
+    expect(receivedAt).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SignalReactionReceptor, SignalEditReceptor, SignalDeleteReceptor } from '../src/signal-receptor.js';
+import type { SignalReceptorConfig } from '../src/signal-receptor.js';
+
+const config: SignalReceptorConfig = {
+  botUuids: new Map([['+1', 'bot-uuid']]),
+  botNames: new Map([['+1', 'Alpha']])
+};
+
+function stateWith(...facets: any[]): any {
+  return { facets: new Map(facets.map(facet => [facet.id, facet])) };
+}
+
+function event(topic: string, payload: Record<string, any>): any {
+  return {
+    topic,
+    source: { elementId: 'signal', elementPath: [] },
+    timestamp: Date.now(),
+    payload: {
+      botPhone: '+1',
+      source: '+100',
+      sourceUuid: 'user-uuid',
+      sourceName: 'Ann',
+      groupId: 'g',
+      timestamp: 2000,
+      streamId: 'signal-stream-g',
+      streamType: 'signal',
+      ...payload
+    }
+  };
+}
+
+describe('SignalReactionReceptor', () => {
+  const messageFacet = {
+    id: 'signal-msg-other-uuid-1000',
+    type: 'event',
+    attributes: { source: '+200', sourceUuid: 'other-uuid', timestamp: 1000 }
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function react(state: any, payload: Record<string, any>, receptorConfig = config) {
+    return new SignalReactionReceptor(receptorConfig).transform(event('signal:reaction', {
+      targetAuthor: '+200',
+      targetAuthorUuid: 'other-uuid',
+      targetTimestamp: 1000,
+      isRemove: false,
+      ...payload
+    }), state) as any[];
+  }
+
+  it('adds a reaction to the target message facet', () => {
+    const deltas = react(stateWith(messageFacet), { emoji: '👍' });
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]).toMatchObject({ type: 'rewriteFacet', id: messageFacet.id });
+    expect(deltas[0].changes.attributes.reactions).toEqual([
+      { emoji: '👍', source: '+100', sourceUuid: 'user-uuid', displayName: 'Ann', timestamp: 2000 }
+    ]);
+    expect(deltas[0].changes.attributes.sourceUuid).toBe('other-uuid');
+  });
+
+  it("replaces the sender's previous reaction and keeps other senders'", () => {
+    const reacted = {
+      ...messageFacet,
+      attributes: {
+        ...messageFacet.attributes,
+        reactions: [
+          { emoji: '👍', source: '+100', sourceUuid: 'user-uuid', displayName: 'Ann', timestamp: 1500 },
+          { emoji: '😂', source: '+300', sourceUuid: 'third-uuid', displayName: 'Bea', timestamp: 1600 }
+        ]
+      }
+    };
+
+    const [delta] = react(stateWith(reacted), { emoji: '❤️' });
+
+    expect(delta.changes.attributes.reactions.map((r: any) => `${r.sourceUuid}:${r.emoji}`)).toEqual([
+      'third-uuid:😂',
+      'user-uuid:❤️'
+    ]);
+  });
+
+  it('removes the reaction when isRemove is set', () => {
+    const reacted = {
+      ...messageFacet,
+      attributes: {
+        ...messageFacet.attributes,
+        reactions: [{ emoji: '👍', source: '+100', sourceUuid: 'user-uuid', displayName: 'Ann', timestamp: 1500 }]
+      }
+    };
+
+    const [delta] = react(stateWith(reacted), { emoji: '👍', isRemove: true });
+
+    expect(delta.changes.attributes.reactions).toEqual([]);
+  });
+
+  it('ignores reactions to messages that were not stored', () => {
+    expect(react(stateWith(), { emoji: '👍' })).toEqual([]);
+  });
+
+  it("records a reaction to a bot's message as its own facet", () => {
+    const deltas = react(stateWith(), { emoji: '👍', targetAuthor: '+1', targetAuthorUuid: 'bot-uuid' });
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]).toMatchObject({
+      type: 'addFacet',
+      facet: {
+        id: 'signal-reaction-user-uuid-+1-1000',
+        type: 'event',
+        content: "Ann reacted 👍 to Alpha's message",
+        streamId: 'signal-stream-g',
+        attributes: { emoji: '👍', botPhone: '+1', targetTimestamp: 1000 }
+      }
+    });
+  });
+
+  it('activates the bot for a reaction to its message when activateOnReactionToBot is set', () => {
+    const deltas = react(stateWith(), { emoji: '👍', targetAuthor: '+1', targetAuthorUuid: 'bot-uuid' }, {
+      ...config,
+      activateOnReactionToBot: true
+    });
+
+    expect(deltas.map(delta => delta.facet.type)).toEqual(['event', 'agent-activation']);
+    expect(deltas[1].facet).toMatchObject({
+      id: 'signal-activation-+1-2000',
+      state: { targetAgent: 'Alpha', botPhone: '+1', reason: 'reaction', triggeredBy: 'signal-reaction-user-uuid-+1-1000' }
+    });
+  });
+
+  it('replaces the reaction facet when the sender changes or removes their reaction', () => {
+    const previous = { id: 'signal-reaction-user-uuid-+1-1000', type: 'event' };
+    const target = { emoji: '😂', targetAuthor: '+1', targetAuthorUuid: 'bot-uuid' };
+
+    expect(react(stateWith(previous), target).map(delta => delta.type)).toEqual(['removeFacet', 'addFacet']);
+    expect(react(stateWith(previous), { ...target, isRemove: true })).toEqual([
+      { type: 'removeFacet', id: previous.id }
+    ]);
+  });
+
+  it("doesn't record bots reacting to each other", () => {
+    const deltas = react(stateWith(), {
+      emoji: '👍',
+      source: '+1',
+      sourceUuid: 'bot-uuid',
+      targetAuthor: '+1',
+      targetAuthorUuid: 'bot-uuid'
+    });
+
+    expect(deltas).toEqual([]);
+  });
+});
+
+/**
+ * A stored group message as SignalMessageReceptor creates it: the speech facet
+ * is nested in the message facet and also stored under its own ID
+ */
+function storedMessage(content: string, attributes: Record<string, any> = {}): any[] {
+  const speech = {
+    id: 'speech-signal-msg-user-uuid-1000',
+    type: 'speech',
+    content,
+    streamId: 'signal-stream-g',
+    state: { speakerId: 'signal:user-uuid', speaker: 'Ann' }
+  };
+  const message = {
+    id: 'signal-msg-user-uuid-1000',
+    type: 'event',
+    attributes: { source: '+100', sourceUuid: 'user-uuid', timestamp: 1000, ...attributes },
+    children: [speech]
+  };
+  return [message, speech];
+}
+
+describe('SignalEditReceptor', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function edit(state: any, message: string, timestamp = 2000) {
+    return new SignalEditReceptor(config).transform(event('signal:edit', {
+      message,
+      mentions: [],
+      targetTimestamp: 1000,
+      timestamp
+    }), state) as any[];
+  }
+
+  it('rewrites the speech facet agents see and keeps the previous text in editHistory', () => {
+    const deltas = edit(stateWith(...storedMessage('helo')), 'hello');
+
+    const speech = deltas.find(delta => delta.id === 'speech-signal-msg-user-uuid-1000');
+    expect(speech).toEqual({
+      type: 'rewriteFacet',
+      id: 'speech-signal-msg-user-uuid-1000',
+      changes: {
+        content: 'hello',
+        state: { speakerId: 'signal:user-uuid', speaker: 'Ann', edited: true }
+      }
+    });
+
+    const message = deltas.find(delta => delta.id === 'signal-msg-user-uuid-1000');
+    expect(message.changes.attributes).toMatchObject({
+      sourceUuid: 'user-uuid',
+      edited: true,
+      lastEditedAt: 2000,
+      editHistory: [{ content: 'helo', timestamp: 1000 }]
+    });
+    expect(message.changes.children[0].content).toBe('hello');
+  });
+
+  it('appends to the edit history from the current speech facet', () => {
+    const [message, speech] = storedMessage('hlo', {
+      edited: true,
+      lastEditedAt: 2000,
+      editHistory: [{ content: 'hlo', timestamp: 1000 }]
+    });
+
+    // The speech facet was rewritten by the previous edit, the nested copy may be stale
+    const deltas = edit(stateWith(message, { ...speech, content: 'helo' }), 'hello', 3000);
+
+    expect(deltas.find(delta => delta.id === message.id).changes.attributes.editHistory).toEqual([
+      { content: 'hlo', timestamp: 1000 },
+      { content: 'helo', timestamp: 2000 }
+    ]);
+    expect(deltas.find(delta => delta.id === speech.id).changes.content).toBe('hello');
+  });
+
+  it('ignores edits that leave the text unchanged', () => {
+    expect(edit(stateWith(...storedMessage('hello')), 'hello')).toEqual([]);
+  });
+
+  it('ignores edits to messages that were not stored', () => {
+    expect(edit(stateWith(), 'hello')).toEqual([]);
+  });
+});
+
+describe('SignalDeleteReceptor', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function remove(state: any, deleteMode?: 'remove' | 'tombstone') {
+    return new SignalDeleteReceptor({ ...config, deleteMode }).transform(event('signal:delete', {
+      targetTimestamp: 1000
+    }), state) as any[];
+  }
+
+  it('removes the message and its speech facet in remove mode', () => {
+    expect(remove(stateWith(...storedMessage('secret')), 'remove')).toEqual([
+      { type: 'removeFacet', id: 'signal-msg-user-uuid-1000' },
+      { type: 'removeFacet', id: 'speech-signal-msg-user-uuid-1000' }
+    ]);
+  });
+
+  it('blanks the speech facet and drops what the user wrote in tombstone mode', () => {
+    const state = stateWith(...storedMessage('secret', {
+      mentions: [{ uuid: 'bot-uuid' }],
+      quote: { id: 900, text: 'quoted' },
+      attachments: [{ hash: 'abc' }],
+      editHistory: [{ content: 'secert', timestamp: 1000 }]
+    }));
+
+    const deltas = remove(state);
+
+    const speech = deltas.find(delta => delta.id === 'speech-signal-msg-user-uuid-1000');
+    expect(speech).toEqual({
+      type: 'rewriteFacet',
+      id: 'speech-signal-msg-user-uuid-1000',
+      changes: {
+        content: '[message deleted]',
+        state: { speakerId: 'signal:user-uuid', speaker: 'Ann', deleted: true }
+      }
+    });
+
+    const message = deltas.find(delta => delta.id === 'signal-msg-user-uuid-1000');
+    expect(message.changes.attributes).toEqual({
+      source: '+100',
+      sourceUuid: 'user-uuid',
+      timestamp: 1000,
+      deleted: true,
+      deletedAt: 2000
+    });
+    expect(message.changes.children[0].content).toBe('[message deleted]');
+  });
+
+  it('ignores deletes of messages that were not stored', () => {
+    expect(remove(stateWith(), 'remove')).toEqual([]);
+    expect(remove(stateWith())).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { SignalRestClient, SignalApiError } from '../src/signal-rest-client.js';
+
+// Replies by the bot number in the path, e.g. /v1/groups/%2B429
+const responses: Record<string, { status: number; body?: string; headers?: Record<string, string>; delay?: number }> = {
+  '+429': { status: 429, body: '{"error":"Rate limit exceeded"}', headers: { 'Retry-After': '3' } },
+  '+404': { status: 404, body: '{"error":"Group not found"}' },
+  '+401': { status: 401, body: 'Unauthorized' },
+  '+400': { status: 400, body: '{"error":"Failed to send message: Untrusted Identity for \\"+5\\""}' },
+  '+500': { status: 500, body: '' },
+  '+slow': { status: 200, body: '[]', delay: 500 }
+};
+
+async function failure(request: Promise<unknown>): Promise<SignalApiError> {
+  const error = await request.then(() => undefined, error => error);
+  expect(error).toBeInstanceOf(SignalApiError);
+  return error;
+}
+
+describe('SignalRestClient errors', () => {
+  let server: http.Server;
+  let client: SignalRestClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const key = decodeURIComponent(req.url!.split('/')[3]);
+      const reply = responses[key] || { status: 404, body: '{"error":"attachment not found"}' };
+      setTimeout(() => {
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(reply.body);
+      }, reply.delay ?? 0);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    client = new SignalRestClient({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, timeout: 100 });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('classifies 429 as rate-limited with the Retry-After delay', async () => {
+    const error = await failure(client.listGroups('+429'));
+
+    expect(error).toMatchObject({ kind: 'rate-limited', status: 429, retryAfter: 3000, endpoint: 'GET /v1/groups/%2B429' });
+    expect(error.message).toBe('GET /v1/groups/%2B429 failed with HTTP 429: Rate limit exceeded');
+  });
+
+  it('classifies 404 as not-found', async () => {
+    expect(await failure(client.listGroups('+404'))).toMatchObject({ kind: 'not-found', status: 404 });
+  });
+
+  it('classifies 401 as unauthorized', async () => {
+    const error = await failure(client.listGroups('+401'));
+
+    expect(error).toMatchObject({ kind: 'unauthorized', status: 401, responseBody: 'Unauthorized' });
+  });
+
+  it('recognises untrusted identities regardless of status', async () => {
+    expect(await failure(client.listGroups('+400'))).toMatchObject({ kind: 'untrusted-identity', status: 400 });
+  });
+
+  it('classifies other 5xx responses as server errors', async () => {
+    const error = await failure(client.listGroups('+500'));
+
+    expect(error).toMatchObject({ kind: 'server', status: 500 });
+    expect(error.message).toBe('GET /v1/groups/%2B500 failed with HTTP 500');
+  });
+
+  it('decodes error bodies of binary requests', async () => {
+    const error = await failure(client.getAttachment('missing'));
+
+    expect(error).toMatchObject({ kind: 'not-found', responseBody: { error: 'attachment not found' } });
+    expect(error.message).toBe('GET /v1/attachments/missing failed with HTTP 404: attachment not found');
+  });
+
+  it('classifies requests that outlive the timeout as timeout', async () => {
+    expect(await failure(client.listGroups('+slow'))).toMatchObject({ kind: 'timeout', status: undefined });
+  });
+
+  it('classifies unreachable servers as network', async () => {
+    // A port that was just free, so nothing listens on it
+    const probe = http.createServer();
+    await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise(resolve => probe.close(resolve));
+
+    const unreachable = new SignalRestClient({ baseUrl: `http://127.0.0.1:${port}` });
+
+    expect(await failure(unreachable.listGroups('+1'))).toMatchObject({ kind: 'network', status: undefined });
+  });
+});
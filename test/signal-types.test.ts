@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { validateReceivedMessage } from '../src/signal-types.js';
+
+describe('validateReceivedMessage', () => {
+  it('accepts envelopes with unknown extra fields', () => {
+    const result = validateReceivedMessage({
+      account: '+1',
+      envelope: {
+        source: '+100',
+        sourceUuid: 'user-uuid',
+        timestamp: 1000,
+        futureField: { nested: true },
+        dataMessage: { message: 'hi', mentions: [{ start: 0, length: 1, uuid: 'bot-uuid' }], groupInfo: { groupId: 'g' } }
+      }
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports every malformed field it routes on', () => {
+    const result = validateReceivedMessage({
+      envelope: {
+        source: 42,
+        dataMessage: {
+          message: ['not', 'text'],
+          mentions: [{ start: '0' }],
+          groupInfo: {},
+          reaction: { emoji: '👍' }
+        }
+      }
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'envelope.timestamp must be a number',
+        'envelope.source must be a string',
+        'envelope.dataMessage.message must be a string',
+        'envelope.dataMessage.mentions[0] must have numeric start and length',
+        'envelope.dataMessage.groupInfo.groupId must be a string',
+        'envelope.dataMessage.reaction.targetSentTimestamp must be a number'
+      ]
+    });
+  });
+
+  it('rejects messages without an envelope object', () => {
+    expect(validateReceivedMessage(null)).toEqual({ valid: false, errors: ['message must be an object'] });
+    expect(validateReceivedMessage({ envelope: 'x' })).toEqual({ valid: false, errors: ['envelope must be an object'] });
+  });
+});